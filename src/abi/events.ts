@@ -0,0 +1,60 @@
+/**
+ * Events decoded from receipts (the generated ABIs only cover functions)
+ *
+ * The bonding curve emits CurveCreate / CurveBuy / CurveSell for trades made
+ * through the router; tokens emit the standard ERC20 Transfer.
+ */
+
+export const bondingCurveEventsAbi = [
+  {
+    "type": "event",
+    "name": "CurveCreate",
+    "inputs": [
+      { "name": "creator", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "token", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "pool", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "name", "type": "string", "indexed": false, "internalType": "string" },
+      { "name": "symbol", "type": "string", "indexed": false, "internalType": "string" },
+      { "name": "tokenURI", "type": "string", "indexed": false, "internalType": "string" },
+      { "name": "virtualMon", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "virtualToken", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "targetTokenAmount", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "CurveBuy",
+    "inputs": [
+      { "name": "sender", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "token", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "amountIn", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "amountOut", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "CurveSell",
+    "inputs": [
+      { "name": "sender", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "token", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "amountIn", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "amountOut", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  }
+] as const;
+
+export const erc20EventsAbi = [
+  {
+    "type": "event",
+    "name": "Transfer",
+    "inputs": [
+      { "name": "from", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "to", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "value", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  }
+] as const;
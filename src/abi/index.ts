@@ -3,5 +3,9 @@
  */
 
 export { bondingCurveRouterAbi } from './bondingCurveRouter';
+export { dexRouterAbi } from './dexRouter';
 export { lensAbi } from './lens';
 export { erc20Abi } from './erc20';
+export { erc20PermitAbi } from './erc20Permit';
+export { tokenMetadataAbi } from './tokenMetadata';
+export { bondingCurveEventsAbi, erc20EventsAbi } from './events';
@@ -0,0 +1,15 @@
+/**
+ * Token metadata getter (not part of IToken.json)
+ *
+ * Curve tokens store the metadata URI passed to `create`.
+ */
+
+export const tokenMetadataAbi = [
+  {
+    "type": "function",
+    "name": "tokenURI",
+    "inputs": [],
+    "outputs": [{ "name": "", "type": "string", "internalType": "string" }],
+    "stateMutability": "view"
+  }
+] as const;
@@ -3,7 +3,7 @@
  */
 type NetworkMode = 'mainnet' | 'testnet';
 
-interface ContractAddresses {
+export interface ContractAddresses {
   BONDING_CURVE: string;
   BONDING_CURVE_ROUTER: string;
   DEX_ROUTER: string;
@@ -58,23 +58,58 @@ export const DERIVATION_PATH = "m/44'/60'/0'/0"; // Ethereum standard
  * Transaction Defaults
  */
 export const TX_DEFAULTS = {
-  DEADLINE_OFFSET: 300, // 5 minutes
-  SLIPPAGE_BPS: 100, // 1% (100 basis points)
+  FEE_BUMP_PERCENT: 15, // Fee increase per stuck-transaction rebroadcast (nodes require >= 10%)
+  MAX_REBROADCASTS: 3,
+  TASK_GAS_TRANSACTIONS: 3, // create + approve + sell, reserved at GAS_LIMIT by the pre-flight check
+} as const;
+
+/**
+ * RPC endpoint pool (failover + health scoring)
+ */
+export const RPC_POOL = {
+  HEALTH_WINDOW: 20, // Recent requests per endpoint counted in its error rate
+  LATENCY_SMOOTHING: 0.2, // Weight of the newest sample in the latency moving average
+  ERROR_PENALTY: 5000, // ms added to an endpoint's latency at a 100% error rate
+  QUORUM_METHODS: new Set(['eth_call', 'eth_getBalance', 'eth_getCode', 'eth_getStorageAt']),
 } as const;
 
 /**
  * Timing constants (in milliseconds)
  */
 export const TIMING = {
-  /** Wait time after transaction receipt for RPC node sync */
-  RPC_SYNC_DELAY: 2000, // 2 seconds
+  /** Per-endpoint RPC request timeout (the pool then fails over) */
+  RPC_TIMEOUT: 60_000, // 60 seconds
+
+  /** An RPC endpoint that failed is tried last for this long */
+  RPC_ENDPOINT_COOLDOWN: 30_000, // 30 seconds
+
+  /** How long recovery waits for a transaction sent before a crash */
+  RECOVERY_RECEIPT_TIMEOUT: 60_000, // 60 seconds
+
+  /** Slots later than this on resume count as overdue (catch-up policy) */
+  SCHEDULE_OVERDUE_GRACE: 60_000, // 1 minute
+
+  /** Timeout when fetching a reused token's metadata JSON */
+  METADATA_FETCH_TIMEOUT: 10_000, // 10 seconds
+
+  /** Receipt polling interval for transactions tracked by the nonce manager */
+  RECEIPT_POLL_INTERVAL: 1000, // 1 second
+
+  /** A transaction pending longer than this is rebroadcast with bumped fees */
+  STUCK_TX_TIMEOUT: 30_000, // 30 seconds
+
+  /** How often a send deferred by the fee cap re-checks the network fee */
+  FEE_DEFER_POLL_INTERVAL: 15_000, // 15 seconds
+
+  /** A send deferred by the fee cap fails after this long */
+  FEE_DEFER_TIMEOUT: 600_000, // 10 minutes
 
-  /** Retry delay for balanceOf calls */
-  BALANCE_RETRY_DELAY: 2000, // 2 seconds
+  /** RPC calls made by /health and /metrics give up after this long */
+  HEALTH_RPC_TIMEOUT: 5000, // 5 seconds
 
-  /** Max retries for balanceOf calls */
-  BALANCE_MAX_RETRIES: 3,
+  /** How often a running bot checks the control file (pause / resume / cancel) */
+  CONTROL_POLL_INTERVAL: 1000, // 1 second
 
-  /** Wallet lock polling interval */
-  WALLET_LOCK_POLL_INTERVAL: 2000, // 2 seconds
+  /** A wallet whose task failed sits out this long (WALLET_SELECTION=health) */
+  WALLET_ERROR_COOLDOWN: 300_000, // 5 minutes
 } as const;
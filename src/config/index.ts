@@ -1,12 +1,25 @@
 import dotenv from 'dotenv';
-import { english, generateMnemonic, mnemonicToAccount } from 'viem/accounts';
+import { resolve } from 'path';
 
-dotenv.config();
+/**
+ * Environment source (process.env or a plain object in tests)
+ */
+type Env = Record<string, string | undefined>;
+
+/**
+ * Default data directory (metadata, state, reports)
+ */
+export const DEFAULT_DATA_DIR = resolve(__dirname, '../../data');
+
+/**
+ * Default log directory (JSON log files)
+ */
+export const DEFAULT_LOG_DIR = resolve(__dirname, '../../logs');
 
 type NetworkMode = 'mainnet' | 'testnet';
 
 interface NetworkConfig {
-  rpcUrl: string;
+  rpcUrls: string[]; // Failover order until health scores take over
   chainId: number;
 }
 
@@ -21,37 +34,87 @@ interface BotConfig {
   metadataStartPage: number;
   metadataLimitPerPage: number;
   metadataMode: 'upload' | 'reuse';
+  metadataSelection: 'random-without-replacement' | 'round-robin' | 'weighted';
+  metadataExhausted: 'refuse' | 'warn'; // More tokens than unused entries
 
   // Wallet
   mnemonic: string;
   numWallets: number;
   walletFundingAmount: string; // in MON
+  topUpBudget: string; // in MON; total the master may send during a run (0 disables top-ups)
+  topUpThreshold?: string; // in MON; workers below it are topped up (default: one task's cost)
+  masterReserveFloor: string; // in MON; the run halts rather than take the master below it
 
   // Bot Settings
   totalTokensToCreate: number;
   durationHours: number;
   executionMode: 'sequential' | 'parallel';
+  workerPoolSize: number; // Tasks running at once in parallel mode (at most one per wallet)
+  walletSelection: 'planned' | 'lru' | 'most-funded' | 'health'; // Wallet picked at dispatch time
   delayRandomness: number; // 0.0-1.0
+  scheduleSeed?: string; // Seeds the PRNG for timing + metadata choice
+  catchUpPolicy: 'burst' | 'spread' | 'drop'; // Overdue slots on resume
 
   // Trading
   initialBuyAmount: string; // in MON
   sellPercentage: number; // 0-100
+  createSlippageBps: number; // Min tokens out on create
+  sellSlippageBps: number; // Min MON out on curve sells
+  dexSellSlippageBps: number; // Min MON out on DEX sells (graduated tokens)
+  sellDeadlineSeconds: number;
+  dexSellDeadlineSeconds: number;
+  slippageStepBps: number; // Added per retry after InsufficientAmountOut
+  maxSlippageBps: number; // Retries never widen past this
 
   // Gas
-  gasLimit: number;
-  maxFeePerGas: string; // in gwei
-  maxPriorityFeePerGas: string; // in gwei
+  gasLimit: number; // Ceiling for gas estimates
+  feeStrategy: 'fixed' | 'oracle' | 'capped';
+  feeMultiplier: number; // Applied to the node's fee estimate (oracle / capped)
+  maxFeePerGas: string; // in gwei (fixed value, or the cap)
+  maxPriorityFeePerGas: string; // in gwei (fixed value, or the cap)
 
   // Retry
   maxRetries: number;
   retryDelayMs: number;
+
+  // Execution
+  dryRun: boolean; // Quote + simulate only, never broadcast
+  rpcRateLimit: number; // RPC calls per second, all wallets together (0: unlimited)
+  rpcQuorum: number; // RPC endpoints that must agree on a state read
+  apiRateLimit: number; // NAD API calls per second (0: unlimited)
+
+  // Safety limits (unset: no limit); hitting one drains the run
+  maxRunSpend?: string; // in MON; gas + value sent to contracts during a run
+  maxWalletSpend?: string; // in MON; the same, per wallet
+  maxConsecutiveFailures?: number;
+  maxGasPrice?: string; // in gwei; max fee per gas of any transaction
+
+  // Storage
+  dataDir: string;
+
+  // Logging
+  logLevel: 'error' | 'warn' | 'info' | 'debug';
+  logDir: string; // JSON log files (empty LOG_DIR disables them)
+
+  // Monitoring
+  metricsPort?: number; // /metrics, /health, /status (disabled when unset)
+  metricsHost: string;
+
+  // Notifications (each sink is enabled by its URL / token)
+  notifyWebhookUrl?: string;
+  notifySlackWebhookUrl?: string;
+  notifyTelegramBotToken?: string;
+  notifyTelegramChatId?: string;
+  notifyTelegramApiUrl: string;
+  notifyIntervalMs: number; // At most one message per sink per interval (events are batched)
+  lowBalanceThreshold?: string; // in MON; wallets below it are reported
 }
 
 /**
  * Validate required environment variables
  */
-function validateEnv(): void {
-  const networkMode = (process.env.NETWORK_MODE || 'mainnet') as NetworkMode;
+function validateEnv(env: Env): void {
+  const networkMode = (env.NETWORK_MODE || 'mainnet') as NetworkMode;
 
   if (!['mainnet', 'testnet'].includes(networkMode)) {
     throw new Error('NETWORK_MODE must be either "mainnet" or "testnet"');
@@ -72,7 +135,7 @@ function validateEnv(): void {
     required.push('TESTNET_RPC_URL', 'TESTNET_CHAIN_ID', 'TESTNET_METADATA_API_BASE_URL');
   }
 
-  const missing = required.filter((key) => !process.env[key]);
+  const missing = required.filter((key) => !env[key]);
 
   if (missing.length > 0) {
     throw new Error(
@@ -83,50 +146,90 @@ function validateEnv(): void {
 }
 
 /**
- * Parse and validate configuration
+ * Parse and validate configuration from an environment object
  */
-function parseConfig(): BotConfig {
-  validateEnv();
+export function parseConfig(env: Env): BotConfig {
+  validateEnv(env);
 
-  const networkMode = (process.env.NETWORK_MODE || 'mainnet') as NetworkMode;
+  const networkMode = (env.NETWORK_MODE || 'mainnet') as NetworkMode;
 
   // Select network-specific config
   const networkConfig: NetworkConfig = {
-    rpcUrl:
-      networkMode === 'mainnet'
-        ? process.env.MAINNET_RPC_URL!
-        : process.env.TESTNET_RPC_URL!,
+    rpcUrls: (networkMode === 'mainnet' ? env.MAINNET_RPC_URL! : env.TESTNET_RPC_URL!)
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean),
     chainId:
       networkMode === 'mainnet'
-        ? parseInt(process.env.MAINNET_CHAIN_ID!)
-        : parseInt(process.env.TESTNET_CHAIN_ID!),
+        ? parseInt(env.MAINNET_CHAIN_ID!)
+        : parseInt(env.TESTNET_CHAIN_ID!),
   };
 
   const config: BotConfig = {
     networkMode,
     network: networkConfig,
-    tokenListApiBaseUrl: process.env.TOKEN_LIST_API_BASE_URL!,
+    tokenListApiBaseUrl: env.TOKEN_LIST_API_BASE_URL!,
     metadataUploadApiBaseUrl:
       networkMode === 'mainnet'
-        ? process.env.MAINNET_METADATA_API_BASE_URL!
-        : process.env.TESTNET_METADATA_API_BASE_URL!,
-    metadataStartPage: parseInt(process.env.METADATA_START_PAGE || '1'),
-    metadataLimitPerPage: parseInt(process.env.METADATA_LIMIT_PER_PAGE || '100'),
-    metadataMode: (process.env.METADATA_MODE || 'upload') as 'upload' | 'reuse',
-    mnemonic: process.env.MNEMONIC!,
-    numWallets: parseInt(process.env.NUM_WALLETS!),
-    walletFundingAmount: process.env.WALLET_FUNDING_AMOUNT || '50',
-    totalTokensToCreate: parseInt(process.env.TOTAL_TOKENS_TO_CREATE!),
-    durationHours: parseFloat(process.env.DURATION_HOURS!),
-    executionMode: (process.env.EXECUTION_MODE || 'parallel') as 'sequential' | 'parallel',
-    delayRandomness: parseFloat(process.env.DELAY_RANDOMNESS || '0.5'),
-    initialBuyAmount: process.env.INITIAL_BUY_AMOUNT || '0.1',
-    sellPercentage: parseInt(process.env.SELL_PERCENTAGE || '100'),
-    gasLimit: parseInt(process.env.GAS_LIMIT || '500000'),
-    maxFeePerGas: process.env.MAX_FEE_PER_GAS || '2',
-    maxPriorityFeePerGas: process.env.MAX_PRIORITY_FEE_PER_GAS || '1',
-    maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
-    retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '5000'),
+        ? env.MAINNET_METADATA_API_BASE_URL!
+        : env.TESTNET_METADATA_API_BASE_URL!,
+    metadataStartPage: parseInt(env.METADATA_START_PAGE || '1'),
+    metadataLimitPerPage: parseInt(env.METADATA_LIMIT_PER_PAGE || '100'),
+    metadataMode: (env.METADATA_MODE || 'upload') as 'upload' | 'reuse',
+    metadataSelection: (env.METADATA_SELECTION || 'random-without-replacement') as BotConfig['metadataSelection'],
+    metadataExhausted: (env.METADATA_EXHAUSTED || 'refuse') as 'refuse' | 'warn',
+    mnemonic: env.MNEMONIC!,
+    numWallets: parseInt(env.NUM_WALLETS!),
+    walletFundingAmount: env.WALLET_FUNDING_AMOUNT || '50',
+    topUpBudget: env.TOPUP_BUDGET || '0',
+    topUpThreshold: env.TOPUP_THRESHOLD || undefined,
+    masterReserveFloor: env.MASTER_RESERVE_FLOOR || '0',
+    totalTokensToCreate: parseInt(env.TOTAL_TOKENS_TO_CREATE!),
+    durationHours: parseFloat(env.DURATION_HOURS!),
+    executionMode: (env.EXECUTION_MODE || 'parallel') as 'sequential' | 'parallel',
+    workerPoolSize: env.WORKER_POOL_SIZE ? parseInt(env.WORKER_POOL_SIZE) : parseInt(env.NUM_WALLETS!),
+    walletSelection: (env.WALLET_SELECTION || 'planned') as BotConfig['walletSelection'],
+    delayRandomness: parseFloat(env.DELAY_RANDOMNESS || '0.5'),
+    scheduleSeed: env.SCHEDULE_SEED || undefined,
+    catchUpPolicy: (env.CATCH_UP_POLICY || 'spread') as 'burst' | 'spread' | 'drop',
+    initialBuyAmount: env.INITIAL_BUY_AMOUNT || '0.1',
+    sellPercentage: parseInt(env.SELL_PERCENTAGE || '100'),
+    createSlippageBps: parseInt(env.CREATE_SLIPPAGE_BPS || '100'),
+    sellSlippageBps: parseInt(env.SELL_SLIPPAGE_BPS || '100'),
+    dexSellSlippageBps: parseInt(env.DEX_SELL_SLIPPAGE_BPS || '100'),
+    sellDeadlineSeconds: parseInt(env.SELL_DEADLINE_SECONDS || '300'),
+    dexSellDeadlineSeconds: parseInt(env.DEX_SELL_DEADLINE_SECONDS || '300'),
+    slippageStepBps: parseInt(env.SLIPPAGE_STEP_BPS || '100'),
+    maxSlippageBps: parseInt(env.MAX_SLIPPAGE_BPS || '500'),
+    gasLimit: parseInt(env.GAS_LIMIT || '500000'),
+    feeStrategy: (env.FEE_STRATEGY || 'oracle') as BotConfig['feeStrategy'],
+    feeMultiplier: parseFloat(env.FEE_MULTIPLIER || '1'),
+    maxFeePerGas: env.MAX_FEE_PER_GAS || '2',
+    maxPriorityFeePerGas: env.MAX_PRIORITY_FEE_PER_GAS || '1',
+    maxRetries: parseInt(env.MAX_RETRIES || '3'),
+    retryDelayMs: parseInt(env.RETRY_DELAY_MS || '5000'),
+    dryRun: env.DRY_RUN === 'true',
+    rpcRateLimit: parseFloat(env.RPC_RATE_LIMIT || '20'),
+    rpcQuorum: parseInt(env.RPC_QUORUM || '1'),
+    apiRateLimit: parseFloat(env.API_RATE_LIMIT || '5'),
+    maxRunSpend: env.MAX_RUN_SPEND || undefined,
+    maxWalletSpend: env.MAX_WALLET_SPEND || undefined,
+    maxConsecutiveFailures: env.MAX_CONSECUTIVE_FAILURES
+      ? parseInt(env.MAX_CONSECUTIVE_FAILURES)
+      : undefined,
+    maxGasPrice: env.MAX_GAS_PRICE || undefined,
+    dataDir: env.DATA_DIR ? resolve(env.DATA_DIR) : DEFAULT_DATA_DIR,
+    logLevel: (env.LOG_LEVEL || 'info') as BotConfig['logLevel'],
+    logDir: env.LOG_DIR === undefined ? DEFAULT_LOG_DIR : env.LOG_DIR && resolve(env.LOG_DIR),
+    metricsPort: env.METRICS_PORT ? parseInt(env.METRICS_PORT) : undefined,
+    metricsHost: env.METRICS_HOST || '127.0.0.1',
+    notifyWebhookUrl: env.NOTIFY_WEBHOOK_URL || undefined,
+    notifySlackWebhookUrl: env.NOTIFY_SLACK_WEBHOOK_URL || undefined,
+    notifyTelegramBotToken: env.NOTIFY_TELEGRAM_BOT_TOKEN || undefined,
+    notifyTelegramChatId: env.NOTIFY_TELEGRAM_CHAT_ID || undefined,
+    notifyTelegramApiUrl: env.NOTIFY_TELEGRAM_API_URL || 'https://api.telegram.org',
+    notifyIntervalMs: parseInt(env.NOTIFY_INTERVAL_MS || '10000'),
+    lowBalanceThreshold: env.LOW_BALANCE_THRESHOLD || undefined,
   };
 
   // Validate values
@@ -146,14 +249,127 @@ function parseConfig(): BotConfig {
     throw new Error('SELL_PERCENTAGE must be between 0 and 100');
   }
 
+  const slippages = {
+    CREATE_SLIPPAGE_BPS: config.createSlippageBps,
+    SELL_SLIPPAGE_BPS: config.sellSlippageBps,
+    DEX_SELL_SLIPPAGE_BPS: config.dexSellSlippageBps,
+    SLIPPAGE_STEP_BPS: config.slippageStepBps,
+    MAX_SLIPPAGE_BPS: config.maxSlippageBps,
+  };
+  for (const [name, bps] of Object.entries(slippages)) {
+    if (!(bps >= 0 && bps < 10000)) {
+      throw new Error(`${name} must be between 0 and 9999 basis points`);
+    }
+  }
+
+  if (!(config.sellDeadlineSeconds > 0) || !(config.dexSellDeadlineSeconds > 0)) {
+    throw new Error('SELL_DEADLINE_SECONDS and DEX_SELL_DEADLINE_SECONDS must be greater than 0');
+  }
+
   if (!['sequential', 'parallel'].includes(config.executionMode)) {
     throw new Error('EXECUTION_MODE must be either "sequential" or "parallel"');
   }
 
+  if (!['planned', 'lru', 'most-funded', 'health'].includes(config.walletSelection)) {
+    throw new Error('WALLET_SELECTION must be "planned", "lru", "most-funded" or "health"');
+  }
+
+  if (!(config.workerPoolSize >= 1)) {
+    throw new Error('WORKER_POOL_SIZE must be at least 1');
+  }
+
+  if (!(config.rpcQuorum >= 1) || config.rpcQuorum > config.network.rpcUrls.length) {
+    throw new Error('RPC_QUORUM must be between 1 and the number of RPC URLs');
+  }
+
+  if (!(config.rpcRateLimit >= 0) || !(config.apiRateLimit >= 0)) {
+    throw new Error('RPC_RATE_LIMIT and API_RATE_LIMIT must be 0 (unlimited) or more');
+  }
+
   if (config.delayRandomness < 0 || config.delayRandomness > 1) {
     throw new Error('DELAY_RANDOMNESS must be between 0.0 and 1.0');
   }
 
+  if (!['random-without-replacement', 'round-robin', 'weighted'].includes(config.metadataSelection)) {
+    throw new Error(
+      'METADATA_SELECTION must be "random-without-replacement", "round-robin" or "weighted"'
+    );
+  }
+
+  if (!['refuse', 'warn'].includes(config.metadataExhausted)) {
+    throw new Error('METADATA_EXHAUSTED must be either "refuse" or "warn"');
+  }
+
+  if (!['burst', 'spread', 'drop'].includes(config.catchUpPolicy)) {
+    throw new Error('CATCH_UP_POLICY must be "burst", "spread" or "drop"');
+  }
+
+  if (!['fixed', 'oracle', 'capped'].includes(config.feeStrategy)) {
+    throw new Error('FEE_STRATEGY must be "fixed", "oracle" or "capped"');
+  }
+
+  if (!['error', 'warn', 'info', 'debug'].includes(config.logLevel)) {
+    throw new Error('LOG_LEVEL must be "error", "warn", "info" or "debug"');
+  }
+
+  if (config.metricsPort !== undefined && !(config.metricsPort >= 0 && config.metricsPort <= 65535)) {
+    throw new Error('METRICS_PORT must be a port number (0-65535)');
+  }
+
+  if (!config.notifyTelegramBotToken !== !config.notifyTelegramChatId) {
+    throw new Error('NOTIFY_TELEGRAM_BOT_TOKEN and NOTIFY_TELEGRAM_CHAT_ID must be set together');
+  }
+
+  if (!(config.notifyIntervalMs >= 0)) {
+    throw new Error('NOTIFY_INTERVAL_MS must be 0 or more');
+  }
+
+  if (config.lowBalanceThreshold !== undefined && !(parseFloat(config.lowBalanceThreshold) >= 0)) {
+    throw new Error('LOW_BALANCE_THRESHOLD must be a MON amount');
+  }
+
+  const funding = {
+    TOPUP_BUDGET: config.topUpBudget,
+    TOPUP_THRESHOLD: config.topUpThreshold ?? '0',
+    MASTER_RESERVE_FLOOR: config.masterReserveFloor,
+  };
+  for (const [name, amount] of Object.entries(funding)) {
+    if (!(parseFloat(amount) >= 0)) {
+      throw new Error(`${name} must be a MON amount`);
+    }
+  }
+
+  const limits = {
+    MAX_RUN_SPEND: config.maxRunSpend,
+    MAX_WALLET_SPEND: config.maxWalletSpend,
+    MAX_GAS_PRICE: config.maxGasPrice,
+  };
+  for (const [name, amount] of Object.entries(limits)) {
+    if (amount !== undefined && !(parseFloat(amount) > 0)) {
+      throw new Error(`${name} must be greater than 0`);
+    }
+  }
+
+  if (config.maxConsecutiveFailures !== undefined && !(config.maxConsecutiveFailures >= 1)) {
+    throw new Error('MAX_CONSECUTIVE_FAILURES must be at least 1');
+  }
+
+  if (!(config.feeMultiplier > 0)) {
+    throw new Error('FEE_MULTIPLIER must be greater than 0');
+  }
+
+  if (!(config.gasLimit > 0)) {
+    throw new Error('GAS_LIMIT must be greater than 0');
+  }
+
+  if (!(parseFloat(config.maxFeePerGas) > 0) || !(parseFloat(config.maxPriorityFeePerGas) >= 0)) {
+    throw new Error('MAX_FEE_PER_GAS and MAX_PRIORITY_FEE_PER_GAS must be positive gwei amounts');
+  }
+
+  if (parseFloat(config.maxPriorityFeePerGas) > parseFloat(config.maxFeePerGas)) {
+    throw new Error('MAX_PRIORITY_FEE_PER_GAS cannot be above MAX_FEE_PER_GAS');
+  }
+
   // Validate mnemonic (basic check)
   const words = config.mnemonic.trim().split(/\s+/);
   if (![12, 15, 18, 21, 24].includes(words.length)) {
@@ -163,5 +379,12 @@ function parseConfig(): BotConfig {
   return config;
 }
 
-export const config = parseConfig();
-export type { BotConfig, NetworkMode, NetworkConfig };
+/**
+ * Load .env into process.env and parse it
+ */
+export function loadConfig(): BotConfig {
+  dotenv.config();
+  return parseConfig(process.env);
+}
+
+export type { BotConfig, NetworkMode, NetworkConfig, Env };
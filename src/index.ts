@@ -1,15 +1,49 @@
 /**
  * Token Creation Bot - Main Entry Point
+ *
+ * SIGINT / SIGTERM stop the run gracefully: no new tasks start, running
+ * creates and sells finish, state is kept for the next start. A second
+ * signal exits immediately.
  */
 
+import { loadConfig } from './config';
+import { createBotContext, type BotContext } from './services/context';
+import { classifyError, formatBotError } from './services/errors';
+import { closeLogger } from './services/logger';
 import { runScheduler } from './services/scheduler';
 
+const SIGNALS = ['SIGINT', 'SIGTERM'] as const;
+
 async function main() {
+  let ctx: BotContext | undefined;
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (!ctx) process.exit(130);
+    if (ctx.control.state === 'stopping') {
+      ctx.log.error(`\n⚠️  ${signal} received again: exiting now, in-flight transactions are recovered on the next start`);
+      process.exit(130);
+    }
+    ctx.control.stop(`${signal} received`);
+  };
+
+  SIGNALS.forEach((signal) => process.on(signal, onSignal));
   try {
-    await runScheduler();
+    ctx = createBotContext(loadConfig());
+    await runScheduler(ctx);
+    await closeLogger(ctx.log);
   } catch (error) {
-    console.error('\n❌ Bot error:', error);
+    const classified = classifyError(error);
+    const message = `\n❌ Bot error: ${formatBotError(classified)}`;
+    if (!ctx) {
+      console.error(message);
+      process.exit(1);
+    }
+
+    ctx.log.error(message, { error: error instanceof Error ? error.stack : String(error) });
+    if (classified.kind === 'unknown') console.error(error);
+    await closeLogger(ctx.log);
     process.exit(1);
+  } finally {
+    SIGNALS.forEach((signal) => process.off(signal, onSignal));
   }
 }
 
@@ -0,0 +1,30 @@
+/**
+ * Send a command to the running bot (through its control file)
+ *
+ * Usage: npm run control -- pause
+ *        npm run control -- resume
+ *        npm run control -- cancel     (running tasks finish, the rest is kept)
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { loadConfig } from '../config';
+import { createBotContext } from '../services/context';
+import { CONTROL_COMMANDS } from '../services/control';
+
+function main() {
+  const command = process.argv[2];
+  if (!command || !(CONTROL_COMMANDS as readonly string[]).includes(command)) {
+    console.error(`Usage: npm run control -- <${CONTROL_COMMANDS.join('|')}>`);
+    process.exit(1);
+  }
+
+  const { storage } = createBotContext(loadConfig());
+  mkdirSync(dirname(storage.controlFile), { recursive: true });
+  writeFileSync(storage.controlFile, `${command}\n`, 'utf-8');
+
+  console.log(`✅ "${command}" written to ${storage.controlFile}`);
+  console.log('   The running bot applies it within a second and deletes the file.');
+}
+
+main();
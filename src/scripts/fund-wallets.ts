@@ -5,33 +5,39 @@
  */
 
 import { parseEther, formatEther } from 'viem';
-import { config } from '../config';
+import { loadConfig } from '../config';
+import { createBotContext } from '../services/context';
+import { classifyError, formatBotError } from '../services/errors';
+import { withLogContext } from '../services/logger';
 import { deriveWallets, getBalance, sendNative } from '../services/wallet';
 
 async function main() {
-  console.log('\n' + '='.repeat(80));
-  console.log('FUND WALLETS FROM MASTER');
-  console.log('='.repeat(80));
-  console.log(`\nNetwork: ${config.networkMode}`);
-  console.log(`RPC: ${config.network.rpcUrl}`);
-  console.log(`Number of wallets to fund: ${config.numWallets}`);
-  console.log(`Amount per wallet: ${config.walletFundingAmount} MON`);
+  const ctx = createBotContext(loadConfig());
+  const { config } = ctx;
+
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('FUND WALLETS FROM MASTER');
+  ctx.log.info('='.repeat(80));
+  ctx.log.info(`\nNetwork: ${config.networkMode}`);
+  ctx.log.info(`RPC: ${config.network.rpcUrls.join(', ')}`);
+  ctx.log.info(`Number of wallets to fund: ${config.numWallets}`);
+  ctx.log.info(`Amount per wallet: ${config.walletFundingAmount} MON`);
 
   // Derive master wallet (index 0) and worker wallets (indices 1-N)
-  const allWallets = deriveWallets(config.mnemonic, config.numWallets + 1);
+  const allWallets = deriveWallets(ctx, config.numWallets + 1);
   const masterWallet = allWallets[0]!;
   const workerWallets = allWallets.slice(1);
 
-  console.log(`\nMaster wallet: ${masterWallet.address}`);
+  ctx.log.info(`\nMaster wallet: ${masterWallet.address}`);
 
   // Check master wallet balance
   const masterBalance = await getBalance(masterWallet);
-  console.log(`Master balance: ${formatEther(masterBalance)} MON`);
+  ctx.log.info(`Master balance: ${formatEther(masterBalance)} MON`);
 
   const fundingAmount = parseEther(config.walletFundingAmount);
   const totalNeeded = fundingAmount * BigInt(workerWallets.length);
 
-  console.log(`\nTotal needed: ${formatEther(totalNeeded)} MON`);
+  ctx.log.info(`\nTotal needed: ${formatEther(totalNeeded)} MON`);
 
   if (masterBalance < totalNeeded) {
     throw new Error(
@@ -39,41 +45,44 @@ async function main() {
     );
   }
 
-  console.log('\n' + '='.repeat(80));
-  console.log('FUNDING WALLETS');
-  console.log('='.repeat(80) + '\n');
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('FUNDING WALLETS');
+  ctx.log.info('='.repeat(80) + '\n');
 
   let successCount = 0;
   let failCount = 0;
 
   for (const wallet of workerWallets) {
-    try {
-      console.log(`\nWallet [${wallet.index}]: ${wallet.address}`);
-      console.log(`  Sending: ${config.walletFundingAmount} MON`);
-
-      const hash = await sendNative(masterWallet, wallet.address, fundingAmount);
-
-      console.log(`  ✅ Funded successfully`);
-      console.log(`  Transaction: ${hash}`);
-
-      successCount++;
-    } catch (error) {
-      console.error(`  ❌ Failed to fund:`, error);
-      failCount++;
-    }
+    await withLogContext({ walletIndex: wallet.index, wallet: wallet.address }, async () => {
+      try {
+        ctx.log.info(`\nWallet [${wallet.index}]: ${wallet.address}`);
+        ctx.log.info(`  Sending: ${config.walletFundingAmount} MON`);
+
+        const receipt = await sendNative(masterWallet, wallet.address, fundingAmount);
+        await ctx.ledger.recordTransfer(masterWallet, receipt, 'fund', wallet);
+
+        ctx.log.info(`  ✅ Funded successfully`);
+        ctx.log.info(`  Transaction: ${receipt.transactionHash}`, { txHash: receipt.transactionHash });
+
+        successCount++;
+      } catch (error) {
+        ctx.log.error(`  ❌ Failed to fund: ${formatBotError(classifyError(error))}`);
+        failCount++;
+      }
+    });
   }
 
-  console.log('\n' + '='.repeat(80));
-  console.log('FUNDING SUMMARY');
-  console.log('='.repeat(80));
-  console.log(`\nTotal wallets: ${workerWallets.length}`);
-  console.log(`✅ Successful: ${successCount}`);
-  console.log(`❌ Failed: ${failCount}`);
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('FUNDING SUMMARY');
+  ctx.log.info('='.repeat(80));
+  ctx.log.info(`\nTotal wallets: ${workerWallets.length}`);
+  ctx.log.info(`✅ Successful: ${successCount}`);
+  ctx.log.info(`❌ Failed: ${failCount}`);
 
   // Check master balance after funding
   const finalBalance = await getBalance(masterWallet);
-  console.log(`\nMaster wallet balance after: ${formatEther(finalBalance)} MON`);
-  console.log('='.repeat(80) + '\n');
+  ctx.log.info(`\nMaster wallet balance after: ${formatEther(finalBalance)} MON`);
+  ctx.log.info('='.repeat(80) + '\n');
 }
 
 main().catch((error) => {
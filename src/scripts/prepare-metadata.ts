@@ -2,14 +2,88 @@
  * Script to prepare metadata before running the bot
  *
  * Usage: npm run prepare-metadata
+ *        npm run prepare-metadata -- --from-dir <folder | manifest.json | manifest.csv>
  */
 
-import { fetchAndPrepareTokens } from '../services/metadata';
-import { saveMetadata } from '../services/storage';
-import { config } from '../config';
+import { fetchAndPrepareTokens, prepareTokensFromManifest } from '../services/metadata';
+import { loadManifest, validateManifest } from '../services/manifest';
+import { loadConfig } from '../config';
+import { createBotContext, type BotContext } from '../services/context';
+import type { PreparedToken } from '../types';
+
+/**
+ * Read `--from-dir <path>` (or `--from-dir=<path>`) from argv
+ */
+function getFromDirArg(): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.findIndex((arg) => arg === '--from-dir' || arg.startsWith('--from-dir='));
+  if (index === -1) return undefined;
+
+  const arg = args[index]!;
+  const value = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[index + 1];
+  if (!value) {
+    throw new Error('--from-dir requires a folder or manifest path');
+  }
+  return value;
+}
+
+/**
+ * Validate and upload a local manifest
+ */
+async function prepareFromManifest(ctx: BotContext, source: string): Promise<PreparedToken[]> {
+  const { config } = ctx;
+
+  console.log(`Source: ${source} (local token concepts)`);
+  console.log(`Metadata upload API: ${config.metadataUploadApiBaseUrl} (${config.networkMode})\n`);
+
+  const entries = loadManifest(source);
+  const errors = validateManifest(entries);
+  if (errors.length > 0) {
+    console.error(`❌ Manifest has ${errors.length} problem(s), nothing was uploaded:`);
+    errors.forEach((error) => console.error(`   - ${error}`));
+    process.exit(1);
+  }
+
+  console.log(`✓ ${entries.length} entries validated`);
+  const tokens = await prepareTokensFromManifest(ctx, entries);
+  if (tokens.length < entries.length) {
+    console.log(`⚠️  ${entries.length - tokens.length} entries failed to upload (see above)`);
+  }
+  return tokens;
+}
+
+/**
+ * Save prepared entries (an empty result keeps the existing metadata.json)
+ */
+function saveMetadata(ctx: BotContext, tokens: PreparedToken[]): void {
+  if (tokens.length === 0) {
+    throw new Error('No metadata entries were prepared; existing metadata was left untouched');
+  }
+  ctx.storage.saveMetadata(tokens);
+}
 
 async function main() {
+  const ctx = createBotContext(loadConfig());
+  const { config } = ctx;
+
   console.log('=== Metadata Preparation Script ===\n');
+
+  const fromDir = getFromDirArg();
+  if (fromDir) {
+    try {
+      const tokens = await prepareFromManifest(ctx, fromDir);
+      saveMetadata(ctx, tokens);
+
+      console.log('\n✅ Metadata preparation completed successfully!');
+      console.log(`   Prepared ${tokens.length} metadata entries`);
+      console.log(`\nYou can now run the bot with: npm run dev`);
+    } catch (error) {
+      console.error('\n❌ Metadata preparation failed:', error);
+      process.exit(1);
+    }
+    return;
+  }
+
   console.log(`Network mode: ${config.networkMode} (tokens will be created here)`);
   console.log(`Metadata mode: ${config.metadataMode}`);
   console.log(`Token list API: ${config.tokenListApiBaseUrl} (always mainnet for more tokens)`);
@@ -22,23 +96,24 @@ async function main() {
     console.log('⚠️  UPLOAD mode: Images will be downloaded and re-uploaded');
     console.log('   This may take longer due to image processing\n');
   } else {
-    console.log('⚠️  REUSE mode: Existing metadata URIs will be reused');
-    console.log('   (This mode is not fully implemented yet)\n');
+    console.log('⚠️  REUSE mode: Existing metadata URIs will be reused (no uploads)');
+    console.log('   Token list and metadata APIs must be on the same network\n');
   }
 
   try {
     // Fetch and prepare tokens (uses START_PAGE and LIMIT from config)
     const tokens = await fetchAndPrepareTokens(
+      ctx,
       config.metadataStartPage,
       config.metadataLimitPerPage
     );
 
     // Save to file
-    saveMetadata(tokens);
+    saveMetadata(ctx, tokens);
 
     console.log('\n✅ Metadata preparation completed successfully!');
     console.log(`   Prepared ${tokens.length} metadata entries`);
-    console.log(`\nBot will randomly select from these when creating tokens.`);
+    console.log(`\nBot will select from these (${config.metadataSelection}) when creating tokens.`);
     console.log(`You can now run the bot with: npm run dev`);
   } catch (error) {
     console.error('\n❌ Metadata preparation failed:', error);
@@ -0,0 +1,166 @@
+/**
+ * P&L report from the ledger (data/ledger.jsonl)
+ *
+ * Usage: npm run report
+ *        npm run report -- --run <runId>      (one run only)
+ *        npm run report -- --csv [dir]        (also write CSV files, default data/report)
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { formatEther } from 'viem';
+import { loadConfig } from '../config';
+import { createBotContext } from '../services/context';
+import { formatTotals, summarizeLedger, NO_RUN, type LedgerEntry } from '../services/ledger';
+
+type Row = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Read `--name value` from argv ('' if the flag has no value, undefined if absent)
+ */
+function getArg(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  return value && !value.startsWith('--') ? value : '';
+}
+
+/**
+ * Serialize rows as CSV (header from the first row's keys)
+ */
+function toCsv(rows: Row[]): string {
+  if (rows.length === 0) return '';
+  const keys = Object.keys(rows[0]!);
+  const escape = (value: Row[string]): string => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [keys.join(','), ...rows.map((row) => keys.map((key) => escape(row[key])).join(','))].join('\n') + '\n';
+}
+
+function entryRow(entry: LedgerEntry): Row {
+  return {
+    run_id: entry.runId ?? NO_RUN,
+    timestamp: new Date(entry.timestamp).toISOString(),
+    kind: entry.kind,
+    status: entry.status,
+    tx_hash: entry.txHash,
+    block: entry.blockNumber,
+    wallet_index: entry.walletIndex,
+    wallet: entry.wallet,
+    counterparty: entry.counterparty,
+    token_index: entry.tokenIndex,
+    token: entry.tokenAddress,
+    symbol: entry.symbol,
+    gas_used: entry.gasUsed,
+    gas_price_gwei: formatEther(BigInt(entry.effectiveGasPrice), 'gwei'),
+    gas_mon: formatEther(BigInt(entry.gasCost)),
+    mon_in: formatEther(BigInt(entry.monIn)),
+    mon_out: formatEther(BigInt(entry.monOut)),
+    deploy_fee_mon: formatEther(BigInt(entry.deployFee)),
+    tokens_in: formatEther(BigInt(entry.tokensIn)),
+    tokens_out: formatEther(BigInt(entry.tokensOut)),
+    estimated: entry.estimated ? 'yes' : '',
+  };
+}
+
+async function main() {
+  const ctx = createBotContext(loadConfig());
+  const runFilter = getArg('--run') || undefined;
+  const csvArg = getArg('--csv');
+
+  let entries = ctx.storage.loadLedger();
+  if (runFilter) {
+    entries = entries.filter((e) => (e.runId ?? NO_RUN) === runFilter);
+  }
+
+  console.log('\n' + '='.repeat(80));
+  console.log('P&L REPORT');
+  console.log('='.repeat(80));
+  console.log(`\nLedger: ${ctx.storage.ledgerFile}`);
+  if (runFilter) console.log(`Run: ${runFilter}`);
+  console.log(`Transactions: ${entries.length}`);
+
+  if (entries.length === 0) {
+    console.log('\nNothing recorded yet.');
+    console.log('='.repeat(80) + '\n');
+    return;
+  }
+
+  const summary = summarizeLedger(entries);
+  const mon = (value: bigint) => `${formatEther(value)} MON`;
+
+  console.log('\nPer run:');
+  for (const [runId, totals] of summary.byRun) {
+    console.log(
+      `  ${runId}: ${totals.txs} txs, net ${mon(totals.net)} ` +
+        `(gas ${mon(totals.gasCost)}, deploy fees ${mon(totals.deployFees)})`
+    );
+  }
+
+  console.log('\nPer wallet:');
+  for (const [index, totals] of [...summary.byWallet].sort(([a], [b]) => a - b)) {
+    console.log(
+      `  [${index}] ${totals.address}: ${totals.txs} txs, net ${mon(totals.net)}, ` +
+        `funded in ${mon(totals.fundsIn)} / out ${mon(totals.fundsOut)}`
+    );
+  }
+
+  console.log('\nPer token:');
+  for (const [address, totals] of summary.byToken) {
+    console.log(
+      `  ${(totals.symbol ?? '?').padEnd(10)} ${address}: net ${mon(totals.net)} ` +
+        `(buy ${mon(totals.initialBuys)}, sold ${mon(totals.sellProceeds)}, gas ${mon(totals.gasCost)})` +
+        (totals.estimated ? ' *' : '')
+    );
+  }
+
+  const { total } = summary;
+  console.log('\nTotal:');
+  console.log(`  Gas:            ${mon(total.gasCost)}`);
+  console.log(`  Deploy fees:    ${mon(total.deployFees)}`);
+  console.log(`  Initial buys:   ${mon(total.initialBuys)}`);
+  console.log(`  Sell proceeds:  ${mon(total.sellProceeds)}`);
+  console.log(`  Net:            ${mon(total.net)}`);
+  if (total.failedTxs > 0) console.log(`  Reverted txs:   ${total.failedTxs}`);
+  if (total.estimated) console.log(`  * some sell proceeds are quoted estimates (no historical balance)`);
+
+  if (csvArg !== undefined) {
+    const dir = csvArg ? resolve(csvArg) : resolve(ctx.config.dataDir, 'report');
+    mkdirSync(dir, { recursive: true });
+
+    const files: Record<string, Row[]> = {
+      'ledger.csv': entries.map(entryRow),
+      'by-run.csv': [...summary.byRun].map(([runId, totals]) => ({
+        run_id: runId,
+        ...formatTotals(totals),
+      })),
+      'by-wallet.csv': [...summary.byWallet]
+        .sort(([a], [b]) => a - b)
+        .map(([index, totals]) => ({
+          wallet_index: index,
+          wallet: totals.address,
+          ...formatTotals(totals),
+        })),
+      'by-token.csv': [...summary.byToken].map(([address, totals]) => ({
+        token: address,
+        symbol: totals.symbol,
+        wallet_index: totals.walletIndex,
+        ...formatTotals(totals),
+      })),
+    };
+
+    for (const [name, rows] of Object.entries(files)) {
+      writeFileSync(resolve(dir, name), toCsv(rows), 'utf-8');
+    }
+    console.log(`\nCSV written to ${dir}`);
+  }
+
+  console.log('\n' + '='.repeat(80) + '\n');
+}
+
+main().catch((error) => {
+  console.error('\n❌ Report failed:', error);
+  process.exit(1);
+});
@@ -4,16 +4,20 @@
  * Usage: npm run show-wallets
  */
 
-import { config } from '../config';
+import { loadConfig } from '../config';
+import { createBotContext } from '../services/context';
 import { deriveWallets, getBalance } from '../services/wallet';
 import { formatEther } from 'viem';
 
 async function main() {
+  const ctx = createBotContext(loadConfig());
+  const { config } = ctx;
+
   console.log('=== Wallet Addresses ===\n');
   console.log(`Network: ${config.networkMode}`);
   console.log(`Derivation path: m/44'/60'/0'/0/{index}\n`);
 
-  const wallets = deriveWallets(config.mnemonic, config.numWallets + 1);
+  const wallets = deriveWallets(ctx, config.numWallets + 1);
 
   console.log('Fetching balances...\n');
 
@@ -2,74 +2,85 @@
  * Withdraw all MON from worker wallets back to master wallet
  */
 
-import { parseEther, formatEther } from 'viem';
+import { parseEther, formatEther, formatGwei } from 'viem';
 import { deriveWallets, getBalance, sendNative } from '../services/wallet';
-import { config } from '../config';
+import { loadConfig } from '../config';
+import { createBotContext } from '../services/context';
+import { classifyError, formatBotError } from '../services/errors';
+import { withLogContext } from '../services/logger';
 
 async function main() {
-  console.log('\n' + '='.repeat(80));
-  console.log('WITHDRAW FUNDS TO MASTER WALLET');
-  console.log('='.repeat(80));
-  console.log(`\nNetwork: ${config.networkMode}`);
-  console.log(`Number of worker wallets: ${config.numWallets}`);
+  const ctx = createBotContext(loadConfig());
+  const { config } = ctx;
+
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('WITHDRAW FUNDS TO MASTER WALLET');
+  ctx.log.info('='.repeat(80));
+  ctx.log.info(`\nNetwork: ${config.networkMode}`);
+  ctx.log.info(`Number of worker wallets: ${config.numWallets}`);
 
   // Derive master wallet (index 0) and worker wallets (indices 1-N)
-  const allWallets = deriveWallets(config.mnemonic, config.numWallets + 1);
+  const allWallets = deriveWallets(ctx, config.numWallets + 1);
   const masterWallet = allWallets[0]!;
   const workerWallets = allWallets.slice(1);
 
-  console.log(`\nMaster wallet: ${masterWallet.address}`);
+  ctx.log.info(`\nMaster wallet: ${masterWallet.address}`);
 
   // Get master wallet initial balance
   const initialMasterBalance = await getBalance(masterWallet);
-  console.log(`Master balance: ${formatEther(initialMasterBalance)} MON`);
+  ctx.log.info(`Master balance: ${formatEther(initialMasterBalance)} MON`);
 
-  console.log('\n' + '='.repeat(80));
-  console.log('COLLECTING FUNDS FROM WORKER WALLETS');
-  console.log('='.repeat(80) + '\n');
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('COLLECTING FUNDS FROM WORKER WALLETS');
+  ctx.log.info('='.repeat(80) + '\n');
 
   // Execute withdrawals in parallel
-  const withdrawalTasks = workerWallets.map(async (wallet) => {
-    try {
-      const balance = await getBalance(wallet);
+  const withdrawalTasks = workerWallets.map((wallet) =>
+    withLogContext({ walletIndex: wallet.index, wallet: wallet.address }, async () => {
+      try {
+        const balance = await getBalance(wallet);
 
-      console.log(`\nWallet [${wallet.index}]: ${wallet.address}`);
-      console.log(`  Balance: ${formatEther(balance)} MON`);
+        ctx.log.info(`\nWallet [${wallet.index}]: ${wallet.address}`);
+        ctx.log.info(`  Balance: ${formatEther(balance)} MON`);
 
-      if (balance === BigInt(0)) {
-        console.log(`  ⏭️  Skipping (zero balance)`);
-        return { success: false, amount: BigInt(0) };
-      }
+        if (balance === BigInt(0)) {
+          ctx.log.info(`  ⏭️  Skipping (zero balance)`);
+          return { success: false, amount: BigInt(0) };
+        }
 
-      // Use fixed gas for simple transfer (21000) instead of estimating
-      const gasEstimate = BigInt(21000);
+        // Use fixed gas for simple transfer (21000) instead of estimating
+        const gasEstimate = BigInt(21000);
 
-      const gasPrice = await wallet.publicClient.getGasPrice();
-      const estimatedGasCost = gasEstimate * gasPrice;
+        // Reserve the worst case (max fee), and send with those same fees
+        const fees = await ctx.fees.fees(`Withdraw [${wallet.index}]`);
+        const gasPrice = fees.maxFeePerGas;
+        const estimatedGasCost = gasEstimate * gasPrice;
 
-      // Calculate amount to send (balance minus estimated gas cost)
-      const amountToSend = balance - estimatedGasCost;
+        // Calculate amount to send (balance minus estimated gas cost)
+        const amountToSend = balance - estimatedGasCost;
 
-      if (amountToSend <= BigInt(0)) {
-        console.log(`  ⏭️  Skipping (insufficient balance for gas)`);
-        console.log(`  Gas cost would be: ${formatEther(estimatedGasCost)} MON`);
-        return { success: false, amount: BigInt(0) };
-      }
+        if (amountToSend <= BigInt(0)) {
+          ctx.log.info(`  ⏭️  Skipping (insufficient balance for gas)`);
+          ctx.log.info(`  Gas cost would be: ${formatEther(estimatedGasCost)} MON`);
+          return { success: false, amount: BigInt(0) };
+        }
 
-      console.log(`  Sending: ${formatEther(amountToSend)} MON`);
-      console.log(`  Gas reserved: ${formatEther(estimatedGasCost)} MON (${gasEstimate} gas @ ${formatEther(gasPrice)} MON)`);
+        ctx.log.info(`  Sending: ${formatEther(amountToSend)} MON`);
+        ctx.log.info(`  Gas reserved: ${formatEther(estimatedGasCost)} MON (${gasEstimate} gas @ ${formatGwei(gasPrice)} gwei)`);
 
-      const hash = await sendNative(wallet, masterWallet.address, amountToSend);
+        const receipt = await sendNative(wallet, masterWallet.address, amountToSend, { fees, unwind: true });
+        await ctx.ledger.recordTransfer(wallet, receipt, 'withdraw', masterWallet);
 
-      console.log(`  ✅ Sent successfully`);
-      console.log(`  Transaction: ${hash}`);
+        ctx.log.info(`  ✅ Sent successfully`);
+        ctx.log.info(`  Transaction: ${receipt.transactionHash}`, { txHash: receipt.transactionHash });
 
-      return { success: true, amount: amountToSend };
-    } catch (error) {
-      console.error(`  ❌ Failed to withdraw:`, error);
-      return { success: false, amount: BigInt(0) };
-    }
-  });
+        return { success: true, amount: amountToSend };
+      } catch (error) {
+        ctx.log.error(`  ❌ Failed to withdraw: ${formatBotError(classifyError(error))}`);
+        return { success: false, amount: BigInt(0) };
+      }
+    })
+  );
 
   const results = await Promise.allSettled(withdrawalTasks);
 
@@ -93,18 +104,18 @@ async function main() {
   // Get master wallet final balance
   const finalMasterBalance = await getBalance(masterWallet);
 
-  console.log('\n' + '='.repeat(80));
-  console.log('WITHDRAWAL SUMMARY');
-  console.log('='.repeat(80));
-  console.log(`\nWorker wallets processed: ${workerWallets.length}`);
-  console.log(`✅ Successful: ${successCount}`);
-  console.log(`❌ Failed: ${failCount}`);
-  console.log(`\nTotal collected: ${formatEther(totalCollected)} MON`);
-  console.log(`\nMaster wallet balance:`);
-  console.log(`  Before: ${formatEther(initialMasterBalance)} MON`);
-  console.log(`  After:  ${formatEther(finalMasterBalance)} MON`);
-  console.log(`  Gained: ${formatEther(finalMasterBalance - initialMasterBalance)} MON`);
-  console.log('\n' + '='.repeat(80) + '\n');
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('WITHDRAWAL SUMMARY');
+  ctx.log.info('='.repeat(80));
+  ctx.log.info(`\nWorker wallets processed: ${workerWallets.length}`);
+  ctx.log.info(`✅ Successful: ${successCount}`);
+  ctx.log.info(`❌ Failed: ${failCount}`);
+  ctx.log.info(`\nTotal collected: ${formatEther(totalCollected)} MON`);
+  ctx.log.info(`\nMaster wallet balance:`);
+  ctx.log.info(`  Before: ${formatEther(initialMasterBalance)} MON`);
+  ctx.log.info(`  After:  ${formatEther(finalMasterBalance)} MON`);
+  ctx.log.info(`  Gained: ${formatEther(finalMasterBalance - initialMasterBalance)} MON`);
+  ctx.log.info('\n' + '='.repeat(80) + '\n');
 }
 
 main().catch((error) => {
@@ -2,6 +2,21 @@
  * Type-safe HTTP client utilities
  */
 
+import type { RateLimiter } from './rateLimiter';
+
+/**
+ * Non-2xx response (status kept for error classification)
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
 interface FetchOptions extends RequestInit {
   params?: Record<string, string | number | boolean>;
 }
@@ -42,8 +57,9 @@ export async function httpGet<T>(
   });
 
   if (!response.ok) {
-    throw new Error(
-      `HTTP GET failed: ${response.status} ${response.statusText} (${url})`
+    throw new HttpError(
+      `HTTP GET failed: ${response.status} ${response.statusText} (${url})`,
+      response.status
     );
   }
 
@@ -74,8 +90,9 @@ export async function httpPost<TResponse, TBody = unknown>(
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(
-      `HTTP POST failed: ${response.status} ${response.statusText}\n${errorText}`
+    throw new HttpError(
+      `HTTP POST failed: ${response.status} ${response.statusText}\n${errorText}`,
+      response.status
     );
   }
 
@@ -103,10 +120,42 @@ export async function httpUpload<TResponse>(
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(
-      `HTTP upload failed: ${response.status} ${response.statusText}\n${errorText}`
+    throw new HttpError(
+      `HTTP upload failed: ${response.status} ${response.statusText}\n${errorText}`,
+      response.status
     );
   }
 
   return response.json() as Promise<TResponse>;
 }
+
+/**
+ * HTTP client bound to a base URL
+ */
+export interface ApiClient {
+  baseURL: string;
+  get<T>(path: string, options?: FetchOptions): Promise<T>;
+  post<TResponse, TBody = unknown>(
+    path: string,
+    body?: TBody,
+    options?: FetchOptions
+  ): Promise<TResponse>;
+  upload<TResponse>(
+    path: string,
+    data: Buffer | ArrayBuffer,
+    contentType: string
+  ): Promise<TResponse>;
+}
+
+/**
+ * Create an API client for a base URL (calls wait for the limiter, if given)
+ */
+export function createApiClient(baseURL: string, limiter?: RateLimiter): ApiClient {
+  const limit = <T>(fn: () => Promise<T>) => (limiter ? limiter.run(fn) : fn());
+  return {
+    baseURL,
+    get: (path, options) => limit(() => httpGet(baseURL, path, options)),
+    post: (path, body, options) => limit(() => httpPost(baseURL, path, body, options)),
+    upload: (path, data, contentType) => limit(() => httpUpload(baseURL, path, data, contentType)),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Bot context: everything built from one explicit config
+ *
+ * Replaces module-level singletons so several configs (e.g. testnet and
+ * mainnet, or two mnemonics) can run in one process, and tests can build
+ * configs without touching process.env.
+ */
+
+import {
+  type Address,
+  type Chain,
+  type PublicClient,
+  type Transport,
+  createPublicClient,
+  defineChain,
+  http,
+} from 'viem';
+import type { BotConfig } from '../config';
+import { CONTRACTS, TIMING } from '../config/constants';
+import { createApiClient, type ApiClient } from './api';
+import { Storage } from './storage';
+import { DryRunRecorder } from './dryRun';
+import { Ledger } from './ledger';
+import { FeeStrategy } from './fees';
+import { Funding } from './funding';
+import { RunControl } from './control';
+import { RunLimits } from './limits';
+import { createLogger, type Logger } from './logger';
+import { Metrics } from './metrics';
+import { createNotifier, type Notifier } from './notifier';
+import type { NonceManager } from './nonceManager';
+import { RateLimiter, rateLimitedTransport } from './rateLimiter';
+import { RpcPool } from './rpcPool';
+
+/**
+ * Contract addresses for the configured network
+ */
+export interface NetworkAddresses {
+  BONDING_CURVE: Address;
+  BONDING_CURVE_ROUTER: Address;
+  DEX_ROUTER: Address;
+  LENS: Address;
+  REWARD_POOL?: Address;
+  CREATOR_TREASURY?: Address;
+  DEX_FACTORY?: Address;
+  WMON?: Address;
+}
+
+export interface BotContext {
+  config: BotConfig;
+  chain: Chain;
+  transport: Transport;
+  /** RPC endpoints behind `transport` (failover, health) */
+  rpc: RpcPool;
+  publicClient: PublicClient;
+  addresses: NetworkAddresses;
+  /** Token list API (always mainnet) */
+  tokenListApi: ApiClient;
+  /** Network-specific metadata upload / salt API */
+  metadataApi: ApiClient;
+  log: Logger;
+  storage: Storage;
+  dryRun: DryRunRecorder;
+  ledger: Ledger;
+  metrics: Metrics;
+  notifier: Notifier;
+  fees: FeeStrategy;
+  /** Pre-flight balance check and master top-ups */
+  funding: Funding;
+  /** Spend / gas price / failure caps, checked before every send */
+  limits: RunLimits;
+  /** Pause / resume / stop requests (control file, signals) */
+  control: RunControl;
+  /** One nonce manager per address, shared by every WalletInstance for it */
+  nonceManagers: Map<Address, NonceManager>;
+}
+
+export interface BotContextOptions {
+  /** Transport override (e.g. the mock chain from src/testing) */
+  transport?: Transport;
+}
+
+/**
+ * Custom chain definition for Monad
+ */
+export function createMonadChain(config: BotConfig): Chain {
+  return defineChain({
+    id: config.network.chainId,
+    name: config.networkMode === 'mainnet' ? 'Monad Mainnet' : 'Monad Testnet',
+    network: config.networkMode,
+    nativeCurrency: {
+      name: 'Monad',
+      symbol: 'MON',
+      decimals: 18,
+    },
+    rpcUrls: {
+      default: { http: config.network.rpcUrls },
+      public: { http: config.network.rpcUrls },
+    },
+  });
+}
+
+/**
+ * Build chain, clients, contract addresses and API clients from a config
+ */
+export function createBotContext(
+  config: BotConfig,
+  options: BotContextOptions = {}
+): BotContext {
+  const chain = createMonadChain(config);
+  const log = createLogger(config);
+
+  // Every RPC call (all wallets) goes through one endpoint pool and shares
+  // RPC_RATE_LIMIT; both APIs share API_RATE_LIMIT
+  const rpc = new RpcPool(
+    options.transport
+      ? [{ url: 'custom', transport: options.transport }]
+      : config.network.rpcUrls.map((url) => ({
+          url,
+          transport: http(url, { timeout: TIMING.RPC_TIMEOUT }),
+        })),
+    options.transport ? 1 : config.rpcQuorum,
+    log
+  );
+  const transport = rateLimitedTransport(rpc.transport, new RateLimiter(config.rpcRateLimit));
+  const apiLimiter = new RateLimiter(config.apiRateLimit);
+
+  const metrics = new Metrics();
+  const storage = new Storage(config.dataDir, log);
+  const publicClient = createPublicClient({ chain, transport });
+  const fees = new FeeStrategy(config, publicClient, log);
+  const ledger = new Ledger(storage, metrics);
+
+  return {
+    config,
+    chain,
+    transport,
+    rpc,
+    publicClient,
+    addresses: { ...CONTRACTS[config.networkMode] } as NetworkAddresses,
+    tokenListApi: createApiClient(config.tokenListApiBaseUrl, apiLimiter),
+    metadataApi: createApiClient(config.metadataUploadApiBaseUrl, apiLimiter),
+    log,
+    storage,
+    dryRun: new DryRunRecorder(config, storage),
+    ledger,
+    metrics,
+    notifier: createNotifier(config, log),
+    fees,
+    funding: new Funding(config, storage, fees, ledger, log),
+    limits: new RunLimits(config, storage, log),
+    control: new RunControl(storage.controlFile, log),
+    nonceManagers: new Map(),
+  };
+}
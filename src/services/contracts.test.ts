@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { decodeFunctionData, getAddress, type Address, type TransactionReceipt } from 'viem';
+import { bondingCurveRouterAbi } from '../abi';
+import { createTestBot, type TestBot } from '../testing';
+import { decodeCreateReceipt, widenSlippage } from './contracts';
+import { applySell, getSellAmountOut, type CurveReserves } from './curve';
+import { KnownError } from './errors';
+import { fetchAndPrepareTokens } from './metadata';
+import { executeTokenCreation } from './tokenCreator';
+import { deriveWallet, type WalletInstance } from './wallet';
+
+describe('create receipt decoding', () => {
+  let bot: TestBot;
+  let wallet: WalletInstance;
+  let token: Address;
+  let balance: bigint;
+  let receipt: TransactionReceipt;
+
+  beforeEach(async () => {
+    // Nothing sold: the creator keeps what the create bought
+    bot = await createTestBot({ SELL_PERCENTAGE: '0' });
+    wallet = deriveWallet(bot.ctx, 1);
+    const [metadata] = await fetchAndPrepareTokens(bot.ctx, 1, 1);
+    await executeTokenCreation(bot.ctx, wallet, metadata!, 0);
+
+    const task = bot.ctx.storage.loadState().tasks[0]!;
+    token = getAddress(task.tokenAddress!);
+    balance = bot.chain.getTokenBalance(token, wallet.address);
+    receipt = await bot.ctx.publicClient.getTransactionReceipt({ hash: task.createHash! });
+  });
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  const withoutLogsFrom = (address: Address): TransactionReceipt => ({
+    ...receipt,
+    logs: receipt.logs.filter((log) => getAddress(log.address) !== getAddress(address)),
+  });
+
+  it('reads the tokens received from the Transfer to the creator', async () => {
+    assert.ok(balance > 0n);
+    assert.deepEqual(await decodeCreateReceipt(bot.ctx, wallet, token, receipt), {
+      tokenAddress: token,
+      tokensReceived: balance,
+    });
+    assert.equal(bot.ctx.storage.loadState().tasks[0]!.tokensReceived, balance.toString());
+  });
+
+  it('falls back to CurveBuy without a Transfer', async () => {
+    const decoded = await decodeCreateReceipt(bot.ctx, wallet, token, withoutLogsFrom(token));
+    assert.equal(decoded.tokensReceived, balance);
+  });
+
+  it('continues with the deployed token when it is not the predicted one', async () => {
+    const predicted = deriveWallet(bot.ctx, 2).address;
+    assert.deepEqual(await decodeCreateReceipt(bot.ctx, wallet, predicted, receipt), {
+      tokenAddress: token,
+      tokensReceived: balance,
+    });
+  });
+
+  it('reads the balance when the receipt has no CurveCreate', async () => {
+    const receipt = withoutLogsFrom(bot.ctx.addresses.BONDING_CURVE);
+    assert.deepEqual(await decodeCreateReceipt(bot.ctx, wallet, token, receipt), {
+      tokenAddress: token,
+      tokensReceived: balance,
+    });
+  });
+
+  it('refuses a receipt without CurveCreate when the creator holds nothing', async () => {
+    const receipt = withoutLogsFrom(bot.ctx.addresses.BONDING_CURVE);
+    await assert.rejects(
+      decodeCreateReceipt(bot.ctx, deriveWallet(bot.ctx, 2), token, receipt),
+      (error) => error instanceof KnownError && error.kind === 'unexpected' && /no CurveCreate/.test(error.message)
+    );
+  });
+});
+
+describe('sellTokens', () => {
+  let bot: TestBot;
+  let wallet: WalletInstance;
+
+  beforeEach(async () => {
+    bot = await createTestBot();
+    wallet = deriveWallet(bot.ctx, 1);
+  });
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  // Create + sell through the task flow; `beforeSell` runs once the create has mined
+  async function createAndSell(beforeSell: (token: Address) => void): Promise<void> {
+    const { ctx } = bot;
+    const waitForReceipt = wallet.nonces.waitForReceipt.bind(wallet.nonces);
+    wallet.nonces.waitForReceipt = async (hash, onReplaced) => {
+      wallet.nonces.waitForReceipt = waitForReceipt;
+      const receipt = await waitForReceipt(hash, onReplaced);
+      beforeSell(ctx.storage.loadState().tasks[0]!.tokenAddress!);
+      return receipt;
+    };
+    const [metadata] = await fetchAndPrepareTokens(ctx, 1, 1);
+    await executeTokenCreation(ctx, wallet, metadata!, 0);
+  }
+
+  const sold = (token: Address) => bot.chain.getTokenBalance(token, wallet.address) === 0n;
+
+  it('sells a graduated token on the DEX', async () => {
+    const { ctx, chain } = bot;
+    await createAndSell((token) => chain.setGraduated(token, true));
+
+    const task = ctx.storage.loadState().tasks[0]!;
+    assert.equal(task.phase, 'settled');
+    assert.ok(sold(task.tokenAddress!));
+    const sell = await ctx.publicClient.getTransaction({ hash: task.sellHash! });
+    assert.equal(getAddress(sell.to!), chain.dexRouter);
+    assert.ok(ctx.storage.loadLedger().some((entry) => entry.kind === 'sell'));
+  });
+
+  it('does not sell a token locked while it graduates', async () => {
+    const { ctx, chain } = bot;
+    await assert.rejects(createAndSell((token) => chain.setLocked(token, true)), /locked/);
+
+    const task = ctx.storage.loadState().tasks[0]!;
+    assert.equal(task.phase, 'failed');
+    assert.ok(task.tokensReceived);
+    assert.equal(chain.getTokenBalance(task.tokenAddress!, wallet.address), BigInt(task.tokensReceived!));
+    assert.ok(!ctx.storage.loadLedger().some((entry) => entry.kind === 'sell'));
+  });
+
+  it('sells on the curve with a permit and no approve', async () => {
+    const { ctx } = bot;
+    await createAndSell(() => {});
+
+    const task = ctx.storage.loadState().tasks[0]!;
+    assert.equal(task.phase, 'settled');
+    assert.equal(task.approveHash, undefined);
+    assert.ok(sold(task.tokenAddress!));
+    assert.deepEqual(ctx.storage.loadLedger().map((entry) => entry.kind), ['create', 'sell']);
+  });
+
+  it('falls back to approve + sell when the token has no permit', async () => {
+    const { ctx, chain } = bot;
+    await createAndSell((token) => chain.setPermitSupported(token, false));
+
+    const task = ctx.storage.loadState().tasks[0]!;
+    assert.equal(task.phase, 'settled');
+    assert.ok(task.approveHash);
+    assert.ok(sold(task.tokenAddress!));
+    const ledger = ctx.storage.loadLedger();
+    assert.deepEqual(ledger.map((entry) => entry.kind), ['create', 'approve', 'sell']);
+    assert.equal(ledger[1]!.txHash, task.approveHash);
+    assert.equal(ledger[2]!.txHash, task.sellHash);
+  });
+
+  it('widens slippage by SLIPPAGE_STEP_BPS after the price moved past the floor', async () => {
+    const { ctx, chain } = bot;
+    let moved!: CurveReserves;
+    await createAndSell((token) => {
+      // Someone sells ahead of our sell: the price drops ~2%, past the 1% floor
+      chain.automine = false;
+      const waitForReceipt = wallet.nonces.waitForReceipt.bind(wallet.nonces);
+      wallet.nonces.waitForReceipt = async (hash, onReplaced) => {
+        wallet.nonces.waitForReceipt = waitForReceipt;
+        const curve = chain.getToken(token)!;
+        curve.reserves = moved = applySell(curve.reserves, curve.reserves.tokenReserve / 100n);
+        chain.automine = true;
+        await chain.mine();
+        return waitForReceipt(hash, onReplaced);
+      };
+    });
+
+    const task = ctx.storage.loadState().tasks[0]!;
+    assert.equal(task.phase, 'settled');
+    const sell = await ctx.publicClient.getTransaction({ hash: task.sellHash! });
+    const call = decodeFunctionData({ abi: bondingCurveRouterAbi, data: sell.input });
+    assert.equal(call.functionName, 'sellPermit');
+    const [params] = call.args;
+    const quoted = getSellAmountOut(moved, params.amountIn);
+    assert.equal(params.amountOutMin, (quoted * 9800n) / 10000n); // 1% + one 1% step
+  });
+
+  it('never widens past MAX_SLIPPAGE_BPS', () => {
+    const { config } = bot.ctx; // MAX_SLIPPAGE_BPS 500
+    assert.equal(widenSlippage(config, 100, 200), 300);
+    assert.equal(widenSlippage(config, 100, 900), 500);
+    assert.equal(widenSlippage(config, 800, 100), 800); // Configured above the max: left as is
+  });
+});
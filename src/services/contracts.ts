@@ -2,15 +2,41 @@
  * Contract interactions using viem (minimal wrappers)
  */
 
-import { type Address, type Hash, parseEther, formatEther } from "viem";
-import { bondingCurveRouterAbi, lensAbi, erc20Abi } from "../abi";
-import { CONTRACTS, TX_DEFAULTS, TIMING } from "../config/constants";
-import { config } from "../config";
+import {
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeFunctionData,
+  domainSeparator,
+  getAddress,
+  getContractError,
+  parseEventLogs,
+  parseSignature,
+  parseEther,
+  formatEther,
+} from "viem";
+import {
+  bondingCurveEventsAbi,
+  bondingCurveRouterAbi,
+  dexRouterAbi,
+  lensAbi,
+  erc20Abi,
+  erc20EventsAbi,
+  erc20PermitAbi,
+} from "../abi";
+import { NETWORK_CONFIG, TIMING } from "../config/constants";
+import type { BotConfig } from "../config";
+import type { BotContext } from "./context";
 import type { WalletInstance } from "./wallet";
+import type { CurveReserves } from "./curve";
+import { KnownError, decodeRouterError, describeError } from "./errors";
+import { getSellAmountOut } from "./curve";
 import { randomBytes } from "crypto";
 
-const ADDRS = CONTRACTS[config.networkMode];
-
 /**
  * Generate random salt
  */
@@ -18,7 +44,7 @@ export function generateSalt(): `0x${string}` {
   return `0x${randomBytes(32).toString("hex")}`;
 }
 
-interface saltReturnType {
+export interface saltReturnType {
   salt: `0x${string}`;
   address: Address;
 }
@@ -26,75 +52,181 @@ interface saltReturnType {
 /**
  * Get salt and token address from API
  */
-async function getSaltAndAddress(
+export async function getSaltAndAddress(
+  ctx: BotContext,
   creator: Address,
   metadata: { name: string; symbol: string; tokenURI: string }
 ): Promise<saltReturnType> {
-  const response = await fetch(
-    `${config.metadataUploadApiBaseUrl}/token/salt`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        creator,
-        metadata_uri: metadata.tokenURI,
-        name: metadata.name,
-        symbol: metadata.symbol,
-      }),
-    }
-  );
+  const data = await ctx.metadataApi.post<saltReturnType>("/token/salt", {
+    creator,
+    metadata_uri: metadata.tokenURI,
+    name: metadata.name,
+    symbol: metadata.symbol,
+  });
+  return { salt: data.salt, address: data.address };
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to get salt: ${response.status}`);
+/**
+ * Operations with their own slippage / deadline settings
+ */
+export type TradeOperation = "create" | "sell" | "dexSell";
+
+/**
+ * Configured slippage and deadline for an operation (create has no deadline)
+ */
+export function tradeSettings(
+  config: BotConfig,
+  operation: TradeOperation
+): { slippageBps: number; deadlineSeconds?: number } {
+  switch (operation) {
+    case "create":
+      return { slippageBps: config.createSlippageBps };
+    case "sell":
+      return { slippageBps: config.sellSlippageBps, deadlineSeconds: config.sellDeadlineSeconds };
+    case "dexSell":
+      return { slippageBps: config.dexSellSlippageBps, deadlineSeconds: config.dexSellDeadlineSeconds };
   }
+}
 
-  const data = (await response.json()) as saltReturnType;
-  return { salt: data.salt, address: data.address };
+/**
+ * Slippage widened by a retry, never past MAX_SLIPPAGE_BPS
+ * (a configured slippage already above the max is left as is)
+ */
+export function widenSlippage(config: BotConfig, slippageBps: number, widenBps: number): number {
+  return Math.min(slippageBps + widenBps, Math.max(slippageBps, config.maxSlippageBps));
+}
+
+/**
+ * Adapt the next attempt to the router's revert reason
+ * - InsufficientAmountOut: price moved past the floor, widen by SLIPPAGE_STEP_BPS
+ * - DeadlineExpired / InsufficientMon: stale quote, re-quote as is
+ * Returns the new slippage widening, or null when the error is not a router
+ * error that new parameters can fix.
+ */
+export function adaptToRouterError(
+  ctx: BotContext,
+  error: unknown,
+  widenBps: number
+): number | null {
+  const reason = decodeRouterError(error);
+  switch (reason) {
+    case "InsufficientAmountOut":
+      ctx.log.info(
+        `  ↻ ${reason}: widening slippage by ${widenBps + ctx.config.slippageStepBps} bps ` +
+          `(max ${ctx.config.maxSlippageBps} bps)`
+      );
+      return widenBps + ctx.config.slippageStepBps;
+    case "DeadlineExpired":
+    case "InsufficientMon":
+      ctx.log.info(`  ↻ ${reason}: re-quoting with a fresh deadline`);
+      return widenBps;
+    default:
+      return null;
+  }
 }
 
 /**
- * Create token with initial buy
+ * Error for a mined revert; the transaction is replayed at its block so the
+ * router's custom error can be decoded (attached as the cause)
  */
-export async function createToken(
+async function minedRevertError(
   wallet: WalletInstance,
-  metadata: {
-    name: string;
-    symbol: string;
-    tokenURI: string;
-  },
-  initialBuyAmount: bigint
-): Promise<{ tokenAddress: Address; tokensReceived: bigint; hash: Hash }> {
-  // Get expected tokens from Lens
+  receipt: TransactionReceipt,
+  abi: Abi,
+  message: string
+): Promise<Error> {
+  try {
+    const tx = await wallet.publicClient.getTransaction({ hash: receipt.transactionHash });
+    const { functionName, args } = decodeFunctionData({ abi, data: tx.input });
+    try {
+      await wallet.publicClient.call({
+        account: wallet.address,
+        to: tx.to!,
+        data: tx.input,
+        value: tx.value,
+        blockNumber: receipt.blockNumber - 1n,
+      });
+    } catch (error) {
+      const cause = getContractError(error as BaseError, {
+        abi,
+        address: tx.to!,
+        args,
+        functionName,
+        sender: wallet.address,
+      });
+      const reason = decodeRouterError(cause);
+      return new KnownError("reverted", reason ? `${message} (${reason})` : message, { cause });
+    }
+  } catch {
+    // Replay unavailable: report the revert without a reason
+  }
+  return new KnownError("reverted", message);
+}
+
+/**
+ * Quote token creation through Lens (expected tokens + slippage floor)
+ */
+async function quoteCreate(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  initialBuyAmount: bigint,
+  widenBps: number = 0
+): Promise<{
+  expectedTokens: bigint;
+  minTokens: bigint;
+  slippageBps: number;
+  deployFee: bigint;
+  totalValue: bigint;
+}> {
   const expectedTokens = await wallet.publicClient.readContract({
-    address: ADDRS.LENS as Address,
+    address: ctx.addresses.LENS,
     abi: lensAbi,
     functionName: "getInitialBuyAmountOut",
     args: [initialBuyAmount],
   });
 
+  const slippageBps = widenSlippage(
+    ctx.config,
+    tradeSettings(ctx.config, "create").slippageBps,
+    widenBps
+  );
   const minTokens =
-    (expectedTokens * BigInt(10000 - TX_DEFAULTS.SLIPPAGE_BPS)) / BigInt(10000);
-  const deployFee = parseEther("10");
+    (expectedTokens * BigInt(10000 - slippageBps)) / BigInt(10000);
+  const deployFee = parseEther(NETWORK_CONFIG.DEPLOY_FEE);
   const totalValue = deployFee + initialBuyAmount;
 
-  // Get salt and token address from API
-  const { salt, address: tokenAddress } = await getSaltAndAddress(
-    wallet.address,
-    metadata
-  );
+  return { expectedTokens, minTokens, slippageBps, deployFee, totalValue };
+}
+
+/**
+ * Send the create transaction (salt + address from getSaltAndAddress)
+ * widenBps: extra slippage from an adaptive retry
+ */
+export async function sendCreateToken(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  metadata: {
+    name: string;
+    symbol: string;
+    tokenURI: string;
+  },
+  { salt, address: tokenAddress }: saltReturnType,
+  initialBuyAmount: bigint,
+  widenBps: number = 0
+): Promise<Hash> {
+  const { expectedTokens, minTokens, slippageBps, deployFee, totalValue } =
+    await quoteCreate(ctx, wallet, initialBuyAmount, widenBps);
 
-  console.log(`Creating token: ${metadata.symbol}`);
-  console.log(`  Token address: ${tokenAddress}`);
-  console.log(`  Deploy fee: ${formatEther(deployFee)} MON`);
-  console.log(`  Initial buy: ${formatEther(initialBuyAmount)} MON`);
-  console.log(`  Expected tokens: ${formatEther(expectedTokens)}`);
-  console.log(`  Min tokens (1% slippage): ${formatEther(minTokens)}`);
+  wallet.log.info(`Creating token: ${metadata.symbol}`);
+  wallet.log.info(`  Token address: ${tokenAddress}`);
+  wallet.log.info(`  Deploy fee: ${formatEther(deployFee)} MON`);
+  wallet.log.info(`  Initial buy: ${formatEther(initialBuyAmount)} MON`);
+  wallet.log.info(`  Expected tokens: ${formatEther(expectedTokens)}`);
+  wallet.log.info(`  Min tokens (${slippageBps / 100}% slippage): ${formatEther(minTokens)}`);
 
   // Create token
-  const hash = await wallet.walletClient.writeContract({
-    address: ADDRS.BONDING_CURVE_ROUTER as Address,
+  const hash = await wallet.nonces.writeContract({
+    address: ctx.addresses.BONDING_CURVE_ROUTER,
     abi: bondingCurveRouterAbi,
     functionName: "create",
     args: [
@@ -107,125 +239,638 @@ export async function createToken(
         actionId: 1,
       },
     ],
-    account: wallet.account,
-    chain: wallet.walletClient.chain,
     value: totalValue,
   });
 
-  console.log(`  Transaction hash: ${hash}`);
+  wallet.log.info(`  Transaction hash: ${hash}`, { txHash: hash });
+
+  return hash;
+}
+
+/**
+ * Token a create deployed and the tokens the creator received
+ */
+export interface CreateOutcome {
+  tokenAddress: Address;
+  tokensReceived: bigint;
+}
+
+/**
+ * Token deployed by a create receipt, from the curve's CurveCreate event
+ */
+export function createdTokenAddress(
+  ctx: BotContext,
+  receipt: TransactionReceipt
+): Address | undefined {
+  const curve = getAddress(ctx.addresses.BONDING_CURVE);
+  const [created] = parseEventLogs({
+    abi: bondingCurveEventsAbi,
+    eventName: "CurveCreate",
+    logs: receipt.logs.filter((log) => getAddress(log.address) === curve),
+  });
+  return created?.args.token;
+}
+
+/**
+ * Decode a successful create receipt
+ * CurveCreate is checked against the address the salt API predicted; when they
+ * differ, the deployed token is the one traded. The amount is the token's
+ * Transfer to the creator (CurveBuy if there is none). Without a CurveCreate,
+ * the creator's balance of the predicted token is read instead, so tokens
+ * already bought are still sold.
+ */
+export async function decodeCreateReceipt(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  tokenAddress: Address,
+  receipt: TransactionReceipt
+): Promise<CreateOutcome> {
+  const predicted = getAddress(tokenAddress);
+  const created = createdTokenAddress(ctx, receipt);
+
+  if (!created) {
+    const balance = await getTokenBalance(wallet, predicted).catch(() => 0n);
+    if (balance === 0n) {
+      throw new KnownError(
+        "unexpected",
+        `Create receipt ${receipt.transactionHash} has no CurveCreate event and ` +
+          `${wallet.address} holds none of ${predicted}`
+      );
+    }
+    wallet.log.warn(
+      `  ⚠️  Create receipt ${receipt.transactionHash} has no CurveCreate event; ` +
+        `using the balance of ${predicted}`
+    );
+    return { tokenAddress: predicted, tokensReceived: balance };
+  }
+  if (created !== predicted) {
+    wallet.log.warn(
+      `  ⚠️  Create deployed ${created}, the salt API predicted ${predicted} ` +
+        `(${receipt.transactionHash}); continuing with ${created}`
+    );
+  }
 
-  // Wait for receipt
-  const receipt = await wallet.publicClient.waitForTransactionReceipt({ hash });
+  const curve = getAddress(ctx.addresses.BONDING_CURVE);
+  const transfers = parseEventLogs({
+    abi: erc20EventsAbi,
+    eventName: "Transfer",
+    logs: receipt.logs.filter((log) => getAddress(log.address) === created),
+    args: { to: wallet.address },
+  });
+  const bought = parseEventLogs({
+    abi: bondingCurveEventsAbi,
+    eventName: "CurveBuy",
+    logs: receipt.logs.filter((log) => getAddress(log.address) === curve),
+    args: { token: created },
+  }).reduce((sum, log) => sum + log.args.amountOut, 0n);
+  if (transfers.length === 0) return { tokenAddress: created, tokensReceived: bought };
+
+  const received = transfers.reduce((sum, log) => sum + log.args.value, 0n);
+  if (received !== bought) {
+    wallet.log.warn(
+      `  ⚠️  Transfer to creator (${formatEther(received)}) differs from CurveBuy (${formatEther(bought)})`
+    );
+  }
+  return { tokenAddress: created, tokensReceived: received };
+}
+
+/**
+ * Wait for the create receipt and decode tokens received from its logs
+ */
+export async function confirmCreateToken(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  tokenAddress: Address,
+  hash: Hash,
+  onMined?: (receipt: TransactionReceipt) => Promise<void>,
+  onReplaced?: (hash: Hash) => Promise<void>
+): Promise<CreateOutcome> {
+  const receipt = await wallet.nonces.waitForReceipt(hash, onReplaced);
+  await onMined?.(receipt);
 
   if (receipt.status === "reverted") {
-    throw new Error(`Token creation reverted: ${hash}`);
+    throw await minedRevertError(
+      wallet,
+      receipt,
+      bondingCurveRouterAbi,
+      `Token creation reverted: ${receipt.transactionHash}`
+    );
   }
 
-  // Wait a bit for contract state to be fully synced on RPC node
-  await new Promise((resolve) => setTimeout(resolve, TIMING.RPC_SYNC_DELAY));
+  const outcome = await decodeCreateReceipt(ctx, wallet, tokenAddress, receipt);
 
-  // Get token balance with retry
-  let tokensReceived: bigint = 0n;
-  for (let attempt = 1; attempt <= TIMING.BALANCE_MAX_RETRIES; attempt++) {
-    try {
-      tokensReceived = await wallet.publicClient.readContract({
+  wallet.log.info(`  ✅ Token created: ${outcome.tokenAddress}`, { txHash: receipt.transactionHash });
+  wallet.log.info(`  Tokens received: ${formatEther(outcome.tokensReceived)}`);
+
+  return outcome;
+}
+
+/**
+ * Token balance of the wallet
+ */
+export async function getTokenBalance(
+  wallet: WalletInstance,
+  tokenAddress: Address
+): Promise<bigint> {
+  return wallet.publicClient.readContract({
+    address: tokenAddress,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [wallet.address],
+  });
+}
+
+/**
+ * Check whether a token contract is deployed at an address
+ */
+export async function isTokenDeployed(
+  wallet: WalletInstance,
+  tokenAddress: Address
+): Promise<boolean> {
+  const code = await wallet.publicClient.getCode({ address: tokenAddress });
+  return code !== undefined && code !== "0x";
+}
+
+/**
+ * Wait for a previously sent transaction, giving up after a timeout
+ * (returns null if the node does not know it or it never mines)
+ */
+export async function findReceipt(
+  wallet: WalletInstance,
+  hash: Hash,
+  timeout: number = TIMING.RECOVERY_RECEIPT_TIMEOUT
+): Promise<TransactionReceipt | null> {
+  try {
+    return await wallet.publicClient.waitForTransactionReceipt({ hash, timeout });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hooks to persist progress between sell transactions
+ */
+export interface SellHooks {
+  /** Also called with the new hash when a stuck transaction is rebroadcast */
+  onApproveSent?: (hash: Hash) => Promise<void>;
+  onApproveMined?: (receipt: TransactionReceipt) => Promise<void>;
+  /** Also called with the new hash when a stuck transaction is rebroadcast */
+  onSellSent?: (hash: Hash) => Promise<void>;
+  onSellMined?: (receipt: TransactionReceipt, expectedMon: bigint) => Promise<void>;
+}
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Sign an EIP-2612 permit for `spender`
+ * Returns null if the token has no nonces() or its domain separator is not the
+ * standard (name, "1", chainId, token) one we can reproduce
+ */
+async function signPermit(
+  wallet: WalletInstance,
+  tokenAddress: Address,
+  spender: Address,
+  value: bigint,
+  deadline: bigint
+): Promise<{ v: number; r: Hex; s: Hex } | null> {
+  let name: string;
+  let nonce: bigint;
+  let onChainSeparator: Hex;
+  try {
+    [name, nonce, onChainSeparator] = await Promise.all([
+      wallet.publicClient.readContract({
         address: tokenAddress,
         abi: erc20Abi,
-        functionName: "balanceOf",
+        functionName: "name",
+      }),
+      wallet.publicClient.readContract({
+        address: tokenAddress,
+        abi: erc20PermitAbi,
+        functionName: "nonces",
         args: [wallet.address],
-      });
-      break;
-    } catch (error) {
-      if (attempt === TIMING.BALANCE_MAX_RETRIES) throw error;
-      console.log(`  ⚠️  balanceOf failed (attempt ${attempt}/${TIMING.BALANCE_MAX_RETRIES}), retrying...`);
-      await new Promise((resolve) => setTimeout(resolve, TIMING.BALANCE_RETRY_DELAY));
+      }),
+      wallet.publicClient.readContract({
+        address: tokenAddress,
+        abi: erc20Abi,
+        functionName: "DOMAIN_SEPARATOR",
+      }),
+    ]);
+  } catch {
+    return null;
+  }
+
+  const domain = {
+    name,
+    version: "1",
+    chainId: wallet.walletClient.chain!.id,
+    verifyingContract: tokenAddress,
+  };
+  if (domainSeparator({ domain }) !== onChainSeparator) {
+    return null;
+  }
+
+  const signature = await wallet.account.signTypedData({
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: "Permit",
+    message: { owner: wallet.address, spender, value, nonce, deadline },
+  });
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { v: Number(v ?? BigInt((yParity ?? 0) + 27)), r, s };
+}
+
+/**
+ * Sell on the curve with a signed permit (no separate approve)
+ * Returns null when permit is unsupported or the router rejects it, so the
+ * caller falls back to approve + sell
+ */
+async function sendSellPermit(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  params: {
+    amountIn: bigint;
+    amountOutMin: bigint;
+    token: Address;
+    to: Address;
+    deadline: bigint;
+  }
+): Promise<Hash | null> {
+  const router = ctx.addresses.BONDING_CURVE_ROUTER;
+  const signature = await signPermit(wallet, params.token, router, params.amountIn, params.deadline);
+  if (!signature) {
+    wallet.log.info(`  Token does not support permit, using approve + sell`);
+    return null;
+  }
+
+  const args = [{ ...params, amountAllowance: params.amountIn, ...signature }] as const;
+
+  try {
+    await wallet.publicClient.simulateContract({
+      address: router,
+      abi: bondingCurveRouterAbi,
+      functionName: "sellPermit",
+      args,
+      account: wallet.account,
+    });
+  } catch (error) {
+    // Slippage / deadline failures are not permit problems: approve + sell would fail too
+    const errorName = decodeRouterError(error);
+    if (errorName === "InsufficientAmountOut" || errorName === "DeadlineExpired") {
+      throw error;
     }
+    wallet.log.info(`  Permit rejected (${describeError(error)}), using approve + sell`);
+    return null;
+  }
+
+  wallet.log.info(`  Selling with permit (no approve)...`);
+  return wallet.nonces.writeContract({
+    address: router,
+    abi: bondingCurveRouterAbi,
+    functionName: "sellPermit",
+    args,
+  }, { unwind: true });
+}
+
+/**
+ * Where a token can be sold right now
+ */
+export interface SellVenue {
+  kind: "curve" | "dex";
+  router: Address;
+  slippageBps: number;
+  deadlineSeconds: number;
+}
+
+/**
+ * Pick the sell venue from the token's graduation state
+ * (a locked, not yet graduated token is mid-migration and cannot be sold anywhere)
+ */
+export async function getSellVenue(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  tokenAddress: Address
+): Promise<SellVenue> {
+  const [isGraduated, isLocked] = await Promise.all([
+    wallet.publicClient.readContract({
+      address: ctx.addresses.LENS,
+      abi: lensAbi,
+      functionName: "isGraduated",
+      args: [tokenAddress],
+    }),
+    wallet.publicClient.readContract({
+      address: ctx.addresses.LENS,
+      abi: lensAbi,
+      functionName: "isLocked",
+      args: [tokenAddress],
+    }),
+  ]);
+
+  if (isGraduated) {
+    const { slippageBps, deadlineSeconds } = tradeSettings(ctx.config, "dexSell");
+    return {
+      kind: "dex",
+      router: ctx.addresses.DEX_ROUTER,
+      slippageBps,
+      deadlineSeconds: deadlineSeconds!,
+    };
   }
 
-  console.log(`  ✅ Token created: ${tokenAddress}`);
-  console.log(`  Tokens received: ${formatEther(tokensReceived)}`);
+  if (isLocked) {
+    throw new KnownError(
+      "token-locked",
+      "Token is locked while graduating - retry once it is listed on the DEX"
+    );
+  }
 
-  return { tokenAddress, tokensReceived, hash };
+  const { slippageBps, deadlineSeconds } = tradeSettings(ctx.config, "sell");
+  return {
+    kind: "curve",
+    router: ctx.addresses.BONDING_CURVE_ROUTER,
+    slippageBps,
+    deadlineSeconds: deadlineSeconds!,
+  };
 }
 
 /**
- * Sell tokens on bonding curve
+ * Sell tokens on the bonding curve, or on the DEX once the token has graduated
+ * widenBps: extra slippage from an adaptive retry
  */
 export async function sellTokens(
+  ctx: BotContext,
   wallet: WalletInstance,
   tokenAddress: Address,
-  amount: bigint
+  amount: bigint,
+  hooks: SellHooks = {},
+  widenBps: number = 0
 ): Promise<Hash> {
-  // Check if graduated
-  const isGraduated = await wallet.publicClient.readContract({
-    address: ADDRS.LENS as Address,
-    abi: lensAbi,
-    functionName: "isGraduated",
-    args: [tokenAddress],
-  });
-
-  if (isGraduated) {
-    throw new Error("Token has graduated - use DEX router instead");
-  }
+  const venue = await getSellVenue(ctx, wallet, tokenAddress);
 
-  // Get quote
-  const [router, expectedMon] = await wallet.publicClient.readContract({
-    address: ADDRS.LENS as Address,
+  // Get quote (Lens also reports which router it priced against)
+  const [quotedRouter, expectedMon] = await wallet.publicClient.readContract({
+    address: ctx.addresses.LENS,
     abi: lensAbi,
     functionName: "getAmountOut",
     args: [tokenAddress, amount, false],
   });
 
+  if (getAddress(quotedRouter) !== getAddress(venue.router)) {
+    throw new KnownError(
+      "unexpected",
+      `Lens quoted via ${quotedRouter}, expected the ${venue.kind} router ${venue.router}`
+    );
+  }
+
+  const slippageBps = widenSlippage(ctx.config, venue.slippageBps, widenBps);
   const minMon =
-    (expectedMon * BigInt(10000 - TX_DEFAULTS.SLIPPAGE_BPS)) / BigInt(10000);
+    (expectedMon * BigInt(10000 - slippageBps)) / BigInt(10000);
   const deadline = BigInt(
-    Math.floor(Date.now() / 1000) + TX_DEFAULTS.DEADLINE_OFFSET
+    Math.floor(Date.now() / 1000) + venue.deadlineSeconds
   );
 
-  console.log(`Selling tokens: ${formatEther(amount)}`);
-  console.log(`  Expected MON: ${formatEther(expectedMon)}`);
-  console.log(`  Min MON (1% slippage): ${formatEther(minMon)}`);
+  wallet.log.info(`Selling tokens${venue.kind === "dex" ? " on DEX (graduated)" : ""}: ${formatEther(amount)}`);
+  wallet.log.info(`  Expected MON: ${formatEther(expectedMon)}`);
+  wallet.log.info(`  Min MON (${slippageBps / 100}% slippage): ${formatEther(minMon)}`);
+
+  const sellParams = {
+    amountIn: amount,
+    amountOutMin: minMon,
+    token: tokenAddress,
+    to: wallet.address,
+    deadline,
+  };
 
-  // Approve
-  console.log(`  Approving router...`);
-  const approveHash = await wallet.walletClient.writeContract({
+  const allowance = await wallet.publicClient.readContract({
     address: tokenAddress,
     abi: erc20Abi,
-    functionName: "approve",
-    args: [ADDRS.BONDING_CURVE_ROUTER as Address, amount],
-    account: wallet.account,
-    chain: wallet.walletClient.chain,
+    functionName: "allowance",
+    args: [wallet.address, venue.router],
   });
 
-  await wallet.publicClient.waitForTransactionReceipt({ hash: approveHash });
+  // One transaction instead of approve + sell when the token supports EIP-2612
+  let hash: Hash | null = null;
+  if (allowance < amount && venue.kind === "curve") {
+    hash = await sendSellPermit(ctx, wallet, sellParams);
+  }
+
+  if (!hash) {
+    // Approve (skipped if a previous attempt already did)
+    if (allowance < amount) {
+      wallet.log.info(`  Approving ${venue.kind} router...`);
+      const approveHash = await wallet.nonces.writeContract({
+        address: tokenAddress,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [venue.router, amount],
+      }, { unwind: true });
+
+      await hooks.onApproveSent?.(approveHash);
+      const approveReceipt = await wallet.nonces.waitForReceipt(approveHash, hooks.onApproveSent);
+      await hooks.onApproveMined?.(approveReceipt);
+    }
+
+    // Sell (both routers take the same SellParams)
+    hash =
+      venue.kind === "dex"
+        ? await wallet.nonces.writeContract({
+            address: venue.router,
+            abi: dexRouterAbi,
+            functionName: "sell",
+            args: [sellParams],
+          }, { unwind: true })
+        : await wallet.nonces.writeContract({
+            address: venue.router,
+            abi: bondingCurveRouterAbi,
+            functionName: "sell",
+            args: [sellParams],
+          }, { unwind: true });
+  }
+
+  wallet.log.info(`  Transaction hash: ${hash}`, { txHash: hash });
+  await hooks.onSellSent?.(hash);
+
+  // A stuck sell is rebroadcast under a new hash (onSellSent records it again)
+  const receipt = await wallet.nonces.waitForReceipt(hash, hooks.onSellSent);
+  await hooks.onSellMined?.(receipt, expectedMon);
+
+  if (receipt.status === "reverted") {
+    throw await minedRevertError(
+      wallet,
+      receipt,
+      venue.kind === "dex" ? dexRouterAbi : bondingCurveRouterAbi,
+      `Token sell reverted (${venue.kind}): ${receipt.transactionHash}`
+    );
+  }
+
+  wallet.log.info(`  ✅ Sold successfully`, { txHash: receipt.transactionHash });
+
+  return receipt.transactionHash;
+}
+
+/**
+ * Create token simulation result (dry run)
+ */
+export interface CreateSimulation {
+  tokenAddress: Address;
+  expectedTokens: bigint;
+  minTokens: bigint;
+  deployFee: bigint;
+  totalValue: bigint;
+  gasCost?: bigint;
+  error?: string;
+}
+
+/**
+ * Quote and simulate token creation without broadcasting
+ */
+export async function simulateCreateToken(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  metadata: {
+    name: string;
+    symbol: string;
+    tokenURI: string;
+  },
+  initialBuyAmount: bigint
+): Promise<CreateSimulation> {
+  const { expectedTokens, minTokens, deployFee, totalValue } =
+    await quoteCreate(ctx, wallet, initialBuyAmount);
+
+  const { salt, address: tokenAddress } = await getSaltAndAddress(
+    ctx,
+    wallet.address,
+    metadata
+  );
 
-  // Sell
-  const hash = await wallet.walletClient.writeContract({
-    address: ADDRS.BONDING_CURVE_ROUTER as Address,
+  const request = {
+    address: ctx.addresses.BONDING_CURVE_ROUTER,
     abi: bondingCurveRouterAbi,
-    functionName: "sell",
+    functionName: "create",
     args: [
       {
-        amountIn: amount,
-        amountOutMin: minMon,
-        token: tokenAddress,
-        to: wallet.address,
-        deadline,
+        name: metadata.name,
+        symbol: metadata.symbol,
+        tokenURI: metadata.tokenURI,
+        amountOut: minTokens,
+        salt,
+        actionId: 1,
       },
     ],
     account: wallet.account,
-    chain: wallet.walletClient.chain,
-  });
+    value: totalValue,
+  } as const;
+
+  const result: CreateSimulation = {
+    tokenAddress,
+    expectedTokens,
+    minTokens,
+    deployFee,
+    totalValue,
+  };
+
+  try {
+    await wallet.publicClient.simulateContract(request);
+    const [gas, gasPrice] = await Promise.all([
+      wallet.publicClient.estimateContractGas(request),
+      wallet.publicClient.getGasPrice(),
+    ]);
+    result.gasCost = gas * gasPrice;
+  } catch (error) {
+    result.error = describeError(error);
+  }
+
+  return result;
+}
+
+/**
+ * Sell simulation result (dry run)
+ */
+export interface SellSimulation {
+  expectedMon: bigint;
+  minMon: bigint;
+  quoteSource: "lens" | "curve";
+  approveError?: string;
+  sellError?: string;
+}
 
-  console.log(`  Transaction hash: ${hash}`);
+/**
+ * Quote and simulate approve + sell without broadcasting
+ *
+ * The token does not exist on-chain during a dry run, so Lens usually
+ * cannot quote it; the local curve estimate from `fallbackReserves` is
+ * used instead and simulation errors are reported rather than thrown.
+ */
+export async function simulateSellTokens(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  tokenAddress: Address,
+  amount: bigint,
+  fallbackReserves: CurveReserves
+): Promise<SellSimulation> {
+  let expectedMon: bigint;
+  let quoteSource: SellSimulation["quoteSource"];
+
+  try {
+    const [, amountOut] = await wallet.publicClient.readContract({
+      address: ctx.addresses.LENS,
+      abi: lensAbi,
+      functionName: "getAmountOut",
+      args: [tokenAddress, amount, false],
+    });
+    expectedMon = amountOut;
+    quoteSource = "lens";
+  } catch {
+    expectedMon = getSellAmountOut(fallbackReserves, amount);
+    quoteSource = "curve";
+  }
 
-  const receipt = await wallet.publicClient.waitForTransactionReceipt({ hash });
+  const { slippageBps, deadlineSeconds } = tradeSettings(ctx.config, "sell");
+  const minMon =
+    (expectedMon * BigInt(10000 - slippageBps)) / BigInt(10000);
+  const deadline = BigInt(
+    Math.floor(Date.now() / 1000) + deadlineSeconds!
+  );
 
-  if (receipt.status === "reverted") {
-    throw new Error(`Token sell reverted: ${hash}`);
+  const result: SellSimulation = { expectedMon, minMon, quoteSource };
+
+  try {
+    await wallet.publicClient.simulateContract({
+      address: tokenAddress,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [ctx.addresses.BONDING_CURVE_ROUTER, amount],
+      account: wallet.account,
+    });
+  } catch (error) {
+    result.approveError = describeError(error);
   }
 
-  console.log(`  ✅ Sold successfully`);
+  try {
+    await wallet.publicClient.simulateContract({
+      address: ctx.addresses.BONDING_CURVE_ROUTER,
+      abi: bondingCurveRouterAbi,
+      functionName: "sell",
+      args: [
+        {
+          amountIn: amount,
+          amountOutMin: minMon,
+          token: tokenAddress,
+          to: wallet.address,
+          deadline,
+        },
+      ],
+      account: wallet.account,
+    });
+  } catch (error) {
+    result.sellError = describeError(error);
+  }
 
-  return hash;
+  return result;
 }
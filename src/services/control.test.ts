@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { existsSync, utimesSync, writeFileSync } from 'fs';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+import { TIMING } from '../config/constants';
+import { createTestBot, type TestBot } from '../testing';
+
+describe('RunControl', () => {
+  let bot: TestBot;
+  let unwatch: (() => void) | undefined;
+
+  beforeEach(async () => {
+    bot = await createTestBot();
+  });
+
+  afterEach(async () => {
+    unwatch?.();
+    unwatch = undefined;
+    await bot.close();
+  });
+
+  it('applies commands written to the control file and deletes it', async () => {
+    const { control } = bot.ctx;
+    unwatch = control.watch();
+    await sleep(50); // File times are coarser than Date.now()
+
+    writeFileSync(control.file, 'pause\n');
+    await sleep(TIMING.CONTROL_POLL_INTERVAL + 200);
+    assert.equal(control.state, 'paused');
+    assert.ok(!existsSync(control.file));
+
+    const resumed = control.whilePaused(new AbortController().signal);
+    writeFileSync(control.file, 'resume\n');
+    await resumed;
+    assert.equal(control.state, 'running');
+
+    writeFileSync(control.file, 'cancel\n');
+    await sleep(TIMING.CONTROL_POLL_INTERVAL + 200);
+    assert.equal(control.state, 'stopping');
+    assert.match(control.stopReason ?? '', /control file/);
+  });
+
+  it('discards a control file left from before the run started', async () => {
+    const { control } = bot.ctx;
+    writeFileSync(control.file, 'cancel\n');
+    const earlier = new Date(Date.now() - 60_000);
+    utimesSync(control.file, earlier, earlier);
+
+    unwatch = control.watch();
+    assert.equal(control.state, 'running');
+    assert.ok(!existsSync(control.file));
+  });
+
+  it('lets a paused wait end when its own signal aborts', async () => {
+    const { control } = bot.ctx;
+    control.pause();
+    const abort = new AbortController();
+    const waiting = control.whilePaused(abort.signal);
+    abort.abort();
+    await waiting;
+    assert.equal(control.state, 'paused');
+  });
+});
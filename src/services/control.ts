@@ -0,0 +1,148 @@
+/**
+ * Run control: pause / resume / cancel without restarting the process
+ *
+ * Commands arrive through a file in the data directory (data/control, see
+ * `npm run control`) and from the process signals handled in index.ts.
+ * The bot reads the file, applies the command and deletes it; a file left
+ * from before the run started is discarded unapplied.
+ *
+ * - pause:  no new task starts; tasks already running finish
+ * - resume: tasks start again (overdue ones right away)
+ * - cancel: stop dispatching; tasks already running finish, then the run
+ *           ends with the rest of the schedule left for the next start
+ */
+
+import { existsSync, readFileSync, statSync, unlinkSync } from 'fs';
+import { TIMING } from '../config/constants';
+import { describeError } from './errors';
+import type { Logger } from './logger';
+
+export const CONTROL_COMMANDS = ['pause', 'resume', 'cancel'] as const;
+
+export type ControlCommand = (typeof CONTROL_COMMANDS)[number];
+
+export type ControlState = 'running' | 'paused' | 'stopping';
+
+export class RunControl {
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+  private readonly stopper = new AbortController();
+
+  constructor(
+    readonly file: string,
+    private readonly log: Logger
+  ) {}
+
+  get state(): ControlState {
+    if (this.stopper.signal.aborted) return 'stopping';
+    return this.paused ? 'paused' : 'running';
+  }
+
+  /**
+   * Aborted (reason: why) once the run is asked to stop
+   */
+  get signal(): AbortSignal {
+    return this.stopper.signal;
+  }
+
+  get stopReason(): string | undefined {
+    return this.signal.aborted ? (this.signal.reason as Error).message : undefined;
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.paused = true;
+    this.log.warn('⏸️  Paused: no new tasks start until resumed (running tasks finish)');
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.paused = false;
+    this.log.info('▶️  Resumed');
+    this.wakeWaiters();
+  }
+
+  /**
+   * Stop dispatching tasks (running tasks finish); the first reason wins
+   */
+  stop(reason: string): void {
+    if (this.signal.aborted) return;
+    this.log.warn(`🛑 Stopping: ${reason}. Running tasks finish, the rest of the schedule is kept`);
+    this.stopper.abort(new Error(reason));
+    this.wakeWaiters();
+  }
+
+  apply(command: ControlCommand, source: string): void {
+    switch (command) {
+      case 'pause':
+        return this.pause();
+      case 'resume':
+        return this.resume();
+      case 'cancel':
+        return this.stop(`cancelled via ${source}`);
+    }
+  }
+
+  /**
+   * Resolves once the run is not paused (or `signal` aborts)
+   */
+  async whilePaused(signal: AbortSignal): Promise<void> {
+    while (this.paused && !signal.aborted && !this.signal.aborted) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          signal.removeEventListener('abort', done);
+          resolve();
+        };
+        this.resumeWaiters.push(done);
+        signal.addEventListener('abort', done, { once: true });
+      });
+    }
+  }
+
+  /**
+   * Poll the control file every CONTROL_POLL_INTERVAL; returns a function
+   * that stops polling
+   */
+  watch(): () => void {
+    const startedAt = Date.now();
+    this.poll(startedAt);
+    const timer = setInterval(() => this.poll(startedAt), TIMING.CONTROL_POLL_INTERVAL);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  private poll(startedAt: number): void {
+    if (!existsSync(this.file)) return;
+
+    let command: string;
+    let stale: boolean;
+    try {
+      stale = statSync(this.file).mtimeMs < startedAt;
+      command = readFileSync(this.file, 'utf-8').trim().toLowerCase();
+      unlinkSync(this.file);
+    } catch (error) {
+      this.log.warn(`⚠️  Could not read control file ${this.file}: ${describeError(error)}`);
+      return;
+    }
+
+    // Left over from an earlier run: not meant for this one
+    if (stale) {
+      this.log.warn(`⚠️  Ignoring control command "${command}" written before this run started`);
+      return;
+    }
+
+    if (!(CONTROL_COMMANDS as readonly string[]).includes(command)) {
+      this.log.warn(
+        `⚠️  Unknown control command "${command}" (expected ${CONTROL_COMMANDS.join(', ')})`
+      );
+      return;
+    }
+    this.apply(command as ControlCommand, 'control file');
+  }
+
+  private wakeWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach((wake) => wake());
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Bonding curve math (constant product over virtual reserves)
+ *
+ * Mirrors the on-chain curve closely enough for estimates when Lens
+ * cannot be queried (e.g. the token does not exist yet). Fees are excluded.
+ */
+
+import { parseEther } from 'viem';
+import { NETWORK_CONFIG } from '../config/constants';
+
+/**
+ * Curve reserves (wei / token base units)
+ */
+export interface CurveReserves {
+  monReserve: bigint;
+  tokenReserve: bigint;
+}
+
+/**
+ * Reserves of a freshly created token
+ */
+export function initialReserves(): CurveReserves {
+  return {
+    monReserve: parseEther(NETWORK_CONFIG.VIRTUAL_MON_RESERVE),
+    tokenReserve: parseEther(NETWORK_CONFIG.VIRTUAL_TOKEN_RESERVE),
+  };
+}
+
+/**
+ * Ceiling division (keeps outputs rounded down, in the pool's favour)
+ */
+function divUp(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+/**
+ * Tokens received for a MON input
+ */
+export function getBuyAmountOut(reserves: CurveReserves, monIn: bigint): bigint {
+  const k = reserves.monReserve * reserves.tokenReserve;
+  return reserves.tokenReserve - divUp(k, reserves.monReserve + monIn);
+}
+
+/**
+ * MON received for a token input
+ */
+export function getSellAmountOut(reserves: CurveReserves, tokensIn: bigint): bigint {
+  const k = reserves.monReserve * reserves.tokenReserve;
+  return reserves.monReserve - divUp(k, reserves.tokenReserve + tokensIn);
+}
+
+/**
+ * Apply a buy and return the new reserves
+ */
+export function applyBuy(reserves: CurveReserves, monIn: bigint): CurveReserves {
+  const tokensOut = getBuyAmountOut(reserves, monIn);
+  return {
+    monReserve: reserves.monReserve + monIn,
+    tokenReserve: reserves.tokenReserve - tokensOut,
+  };
+}
+
+/**
+ * Apply a sell and return the new reserves
+ */
+export function applySell(reserves: CurveReserves, tokensIn: bigint): CurveReserves {
+  const monOut = getSellAmountOut(reserves, tokensIn);
+  return {
+    monReserve: reserves.monReserve - monOut,
+    tokenReserve: reserves.tokenReserve + tokensIn,
+  };
+}
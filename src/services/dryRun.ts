@@ -0,0 +1,190 @@
+/**
+ * Dry-run report collector
+ *
+ * Gathers what each simulated token creation would have done and writes
+ * a single report at the end of the run.
+ */
+
+import { formatEther } from 'viem';
+import type { BotConfig } from '../config';
+import { getBalance, type WalletInstance } from './wallet';
+import type { Storage } from './storage';
+import type { CreateSimulation, SellSimulation } from './contracts';
+import type { PreparedToken } from '../types';
+
+/**
+ * One simulated token (amounts formatted in MON / tokens)
+ */
+export interface DryRunTokenEntry {
+  name: string;
+  symbol: string;
+  walletIndex: number;
+  walletAddress: string;
+  tokenAddress: string;
+  deployFee: string;
+  initialBuyAmount: string;
+  expectedTokens: string;
+  minTokens: string;
+  createGasCost?: string;
+  createError?: string;
+  sellAmount?: string;
+  expectedMon?: string;
+  minMon?: string;
+  sellQuoteSource?: SellSimulation['quoteSource'];
+  approveError?: string;
+  sellError?: string;
+  monSpent: string;
+}
+
+/**
+ * Per-wallet projection
+ */
+export interface DryRunWalletSummary {
+  walletIndex: number;
+  address: string;
+  tokens: number;
+  startBalance: string;
+  monSpent: string;
+  projectedEndBalance: string;
+  sufficientFunds: boolean;
+}
+
+/**
+ * Full dry-run report
+ */
+export interface DryRunReport {
+  generatedAt: string;
+  networkMode: string;
+  initialBuyAmount: string;
+  sellPercentage: number;
+  tokens: DryRunTokenEntry[];
+  wallets: DryRunWalletSummary[];
+  totals: {
+    tokens: number;
+    createFailures: number;
+    monSpent: string;
+  };
+}
+
+interface WalletTally {
+  walletIndex: number;
+  address: string;
+  tokens: number;
+  startBalance: bigint;
+  monSpent: bigint;
+  // Lowest projected balance after paying for a create, before the sell refund
+  lowestBalance: bigint;
+}
+
+/**
+ * Collects simulated token creations for one run
+ */
+export class DryRunRecorder {
+  private entries: DryRunTokenEntry[] = [];
+  private wallets = new Map<number, WalletTally>();
+
+  constructor(
+    private readonly config: BotConfig,
+    private readonly storage: Storage
+  ) {}
+
+  /**
+   * Record one simulated create (+ optional sell)
+   */
+  async record(
+    wallet: WalletInstance,
+    metadata: PreparedToken,
+    create: CreateSimulation,
+    sell?: { amount: bigint; result: SellSimulation }
+  ): Promise<DryRunTokenEntry> {
+    let tally = this.wallets.get(wallet.index);
+    if (!tally) {
+      const startBalance = await getBalance(wallet);
+      tally = {
+        walletIndex: wallet.index,
+        address: wallet.address,
+        tokens: 0,
+        startBalance,
+        monSpent: 0n,
+        lowestBalance: startBalance,
+      };
+      this.wallets.set(wallet.index, tally);
+    }
+
+    const createCost = create.totalValue + (create.gasCost ?? 0n);
+    const monBack = sell?.result.expectedMon ?? 0n;
+
+    const afterCreate = tally.startBalance - tally.monSpent - createCost;
+    if (afterCreate < tally.lowestBalance) tally.lowestBalance = afterCreate;
+
+    const monSpent = createCost - monBack;
+    tally.tokens++;
+    tally.monSpent += monSpent;
+
+    const entry: DryRunTokenEntry = {
+      name: metadata.name,
+      symbol: metadata.symbol,
+      walletIndex: wallet.index,
+      walletAddress: wallet.address,
+      tokenAddress: create.tokenAddress,
+      deployFee: formatEther(create.deployFee),
+      initialBuyAmount: formatEther(create.totalValue - create.deployFee),
+      expectedTokens: formatEther(create.expectedTokens),
+      minTokens: formatEther(create.minTokens),
+      createGasCost: create.gasCost !== undefined ? formatEther(create.gasCost) : undefined,
+      createError: create.error,
+      sellAmount: sell ? formatEther(sell.amount) : undefined,
+      expectedMon: sell ? formatEther(sell.result.expectedMon) : undefined,
+      minMon: sell ? formatEther(sell.result.minMon) : undefined,
+      sellQuoteSource: sell?.result.quoteSource,
+      approveError: sell?.result.approveError,
+      sellError: sell?.result.sellError,
+      monSpent: formatEther(monSpent),
+    };
+
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Build the report from everything recorded so far
+   */
+  build(): DryRunReport {
+    const walletSummaries = [...this.wallets.values()]
+      .sort((a, b) => a.walletIndex - b.walletIndex)
+      .map((tally) => ({
+        walletIndex: tally.walletIndex,
+        address: tally.address,
+        tokens: tally.tokens,
+        startBalance: formatEther(tally.startBalance),
+        monSpent: formatEther(tally.monSpent),
+        projectedEndBalance: formatEther(tally.startBalance - tally.monSpent),
+        sufficientFunds: tally.lowestBalance >= 0n,
+      }));
+
+    const totalSpent = [...this.wallets.values()].reduce((sum, t) => sum + t.monSpent, 0n);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      networkMode: this.config.networkMode,
+      initialBuyAmount: this.config.initialBuyAmount,
+      sellPercentage: this.config.sellPercentage,
+      tokens: [...this.entries],
+      wallets: walletSummaries,
+      totals: {
+        tokens: this.entries.length,
+        createFailures: this.entries.filter((e) => e.createError).length,
+        monSpent: formatEther(totalSpent),
+      },
+    };
+  }
+
+  /**
+   * Write the report to dry-run-report.json and return it
+   */
+  write(): { report: DryRunReport; path: string } {
+    const report = this.build();
+    const path = this.storage.saveDryRunReport(report);
+    return { report, path };
+  }
+}
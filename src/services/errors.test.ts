@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  NonceTooLowError,
+  defineChain,
+  encodeErrorResult,
+} from 'viem';
+import { bondingCurveRouterAbi } from '../abi';
+import { HttpError } from './api';
+import { classifyError, formatBotError, KnownError } from './errors';
+
+const routerRevert = (errorName: 'InsufficientAmountOut' | 'InsufficientAmountIn') =>
+  new ContractFunctionRevertedError({
+    abi: bondingCurveRouterAbi,
+    functionName: 'sell',
+    data: encodeErrorResult({ abi: bondingCurveRouterAbi, errorName }),
+  });
+
+const summary = (error: unknown) => {
+  const { kind, action } = classifyError(error);
+  return [kind, action];
+};
+
+describe('classifyError', () => {
+  it('decodes router errors, retrying the ones new parameters can fix', () => {
+    assert.deepEqual(classifyError(routerRevert('InsufficientAmountOut')), {
+      kind: 'router',
+      errorName: 'InsufficientAmountOut',
+      message: 'The contract function "sell" reverted.',
+      retryable: true,
+      action: 'retry',
+    });
+    assert.deepEqual(summary(routerRevert('InsufficientAmountIn')), ['router', 'skip']);
+
+    // Raw revert data on an RPC error, wrapped by the bot
+    const data = encodeErrorResult({ abi: bondingCurveRouterAbi, errorName: 'DeadlineExpired' });
+    const wrapped = new KnownError('reverted', 'Token sell reverted', { cause: Object.assign(new Error('rpc'), { data }) });
+    assert.equal(formatBotError(classifyError(wrapped)), '[DeadlineExpired] Token sell reverted');
+  });
+
+  it('keeps the kind of errors the bot raised itself, found through causes', () => {
+    assert.deepEqual(summary(new KnownError('stuck', 'pending')), ['stuck', 'skip']);
+    assert.deepEqual(summary(new KnownError('reserve-floor', 'floor')), ['reserve-floor', 'abort']);
+    assert.deepEqual(summary(new Error('create failed', { cause: new KnownError('nonce', 'gap') })), ['nonce', 'retry']);
+  });
+
+  it('maps viem and HTTP errors', () => {
+    assert.deepEqual(summary(new InsufficientFundsError()), ['insufficient-funds', 'skip']);
+    assert.deepEqual(summary(new NonceTooLowError()), ['nonce', 'retry']);
+    const chain = defineChain({
+      id: 143,
+      name: 'Monad',
+      nativeCurrency: { name: 'MON', symbol: 'MON', decimals: 18 },
+      rpcUrls: { default: { http: ['http://rpc'] } },
+    });
+    assert.deepEqual(summary(new ChainMismatchError({ chain, currentChainId: 10143 })), ['chain-mismatch', 'abort']);
+    assert.deepEqual(summary(new HttpRequestError({ url: 'http://rpc', status: 429 })), ['rate-limit', 'retry']);
+    assert.deepEqual(summary(new HttpRequestError({ url: 'http://rpc' })), ['network', 'retry']);
+    assert.deepEqual(summary(new HttpError('bad gateway', 502)), ['network', 'retry']);
+    assert.deepEqual(summary(new HttpError('forbidden', 403)), ['http', 'abort']);
+    assert.deepEqual(summary(new HttpError('bad request', 400)), ['http', 'skip']);
+  });
+
+  it('falls back to node messages, then unknown', () => {
+    assert.deepEqual(summary(new Error('insufficient funds for gas * price + value')), ['insufficient-funds', 'skip']);
+    assert.deepEqual(summary(new Error('replacement transaction underpriced')), ['nonce', 'retry']);
+    assert.deepEqual(summary(new Error('fetch failed', { cause: new Error('connect ECONNREFUSED') })), [
+      'network',
+      'retry',
+    ]);
+    assert.deepEqual(summary('something else'), ['unknown', 'retry']);
+  });
+});
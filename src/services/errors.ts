@@ -0,0 +1,202 @@
+/**
+ * Error classification
+ *
+ * Every failure maps to a BotError: what kind it is, a one-line message, and
+ * what to do about it — retry the step, skip the task, or abort the run.
+ */
+
+import {
+  type Hex,
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  LimitExceededRpcError,
+  NonceTooHighError,
+  NonceTooLowError,
+  TimeoutError,
+  WaitForTransactionReceiptTimeoutError,
+  decodeErrorResult,
+} from 'viem';
+import { bondingCurveRouterAbi, dexRouterAbi } from '../abi';
+import { HttpError } from './api';
+
+export type ErrorAction = 'retry' | 'skip' | 'abort';
+
+interface ErrorInfo {
+  message: string;
+  retryable: boolean;
+  action: ErrorAction;
+}
+
+export type BotError = ErrorInfo &
+  (
+    | { kind: 'router'; errorName: string } // Router custom error (decoded)
+    | { kind: 'reverted' } // Mined revert, reason unknown
+    | { kind: 'timeout' }
+    | { kind: 'rate-limit' }
+    | { kind: 'network' } // RPC / API unreachable or 5xx
+    | { kind: 'http'; status: number } // API rejected the request (4xx)
+    | { kind: 'nonce' }
+    | { kind: 'insufficient-funds' }
+    | { kind: 'token-locked' } // Mid-graduation, sellable once listed on the DEX
+    | { kind: 'fee-cap' } // Network fee stayed above the cap
+    | { kind: 'gas-limit' } // Estimate above GAS_LIMIT
+    | { kind: 'stuck' } // Still pending after every rebroadcast
+    | { kind: 'chain-mismatch' } // RPC serves another chain
+    | { kind: 'reserve-floor' } // Master wallet at its reserve floor
+    | { kind: 'limit' } // Run safety cap hit (the run drains)
+    | { kind: 'unexpected' } // Inconsistent on-chain / API state
+    | { kind: 'unknown' }
+  );
+
+export type BotErrorKind = BotError['kind'];
+
+/**
+ * Error raised by the bot itself, with its kind known up front
+ */
+export class KnownError extends Error {
+  constructor(
+    readonly kind: Exclude<BotErrorKind, 'router' | 'http'>,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'KnownError';
+  }
+}
+
+// Router errors a re-quote / wider slippage / fresh allowance can fix
+const RETRYABLE_ROUTER_ERRORS = [
+  'DeadlineExpired',
+  'InsufficientAmountOut',
+  'InsufficientMon',
+  'InvalidAllowance',
+];
+
+const routerErrorsAbi = [...bondingCurveRouterAbi, ...dexRouterAbi].filter(
+  (item) => item.type === 'error'
+);
+
+/**
+ * Name of the router custom error behind a failure, if any (ABI-decoded
+ * contract errors, or raw revert data from an RPC error)
+ */
+export function decodeRouterError(error: unknown): string | undefined {
+  for (const e of causes(error)) {
+    if (e instanceof ContractFunctionRevertedError && e.data?.errorName) {
+      return e.data.errorName;
+    }
+    const data = (e as { data?: unknown }).data;
+    if (typeof data === 'string' && /^0x[0-9a-fA-F]{8}/.test(data)) {
+      try {
+        return decodeErrorResult({ abi: routerErrorsAbi, data: data as Hex }).errorName;
+      } catch {
+        // Not a router error
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Classify any thrown value
+ */
+export function classifyError(error: unknown): BotError {
+  const message = describeError(error);
+  const retry = { message, retryable: true, action: 'retry' as const };
+  const skip = { message, retryable: false, action: 'skip' as const };
+  const abort = { message, retryable: false, action: 'abort' as const };
+
+  const errorName = decodeRouterError(error);
+  if (errorName) {
+    return RETRYABLE_ROUTER_ERRORS.includes(errorName)
+      ? { kind: 'router', errorName, ...retry }
+      : { kind: 'router', errorName, ...skip };
+  }
+
+  const known = causes(error).find((e): e is KnownError => e instanceof KnownError);
+  if (known) {
+    switch (known.kind) {
+      case 'insufficient-funds':
+      case 'fee-cap':
+      case 'gas-limit':
+      case 'stuck':
+      case 'unexpected':
+      case 'limit':
+        return { kind: known.kind, ...skip };
+      case 'chain-mismatch':
+      case 'reserve-floor':
+        return { kind: known.kind, ...abort };
+      default:
+        return { kind: known.kind, ...retry };
+    }
+  }
+
+  for (const e of causes(error)) {
+    if (e instanceof ChainMismatchError) return { kind: 'chain-mismatch', ...abort };
+    if (e instanceof InsufficientFundsError) return { kind: 'insufficient-funds', ...skip };
+    if (e instanceof NonceTooLowError || e instanceof NonceTooHighError) {
+      return { kind: 'nonce', ...retry };
+    }
+    if (e instanceof LimitExceededRpcError) return { kind: 'rate-limit', ...retry };
+    if (e instanceof TimeoutError || e instanceof WaitForTransactionReceiptTimeoutError) {
+      return { kind: 'timeout', ...retry };
+    }
+    if (e instanceof ContractFunctionRevertedError) return { kind: 'reverted', ...retry };
+
+    const status = e instanceof HttpError || e instanceof HttpRequestError ? e.status : undefined;
+    if (status !== undefined) {
+      if (status === 429) return { kind: 'rate-limit', ...retry };
+      if (status >= 500) return { kind: 'network', ...retry };
+      if (status === 401 || status === 403) return { kind: 'http', status, ...abort };
+      return { kind: 'http', status, ...skip };
+    }
+    if (e instanceof HttpRequestError) return { kind: 'network', ...retry };
+  }
+
+  // Node messages that viem leaves unmapped
+  const text = causes(error)
+    .map((e) => (e instanceof Error ? e.message : String(e)))
+    .join('\n');
+  if (/insufficient funds/i.test(text)) return { kind: 'insufficient-funds', ...skip };
+  if (/nonce too (low|high)|replacement transaction underpriced/i.test(text)) {
+    return { kind: 'nonce', ...retry };
+  }
+  if (/rate limit|too many requests/i.test(text)) return { kind: 'rate-limit', ...retry };
+  if (/timed? ?out|ETIMEDOUT/i.test(text)) return { kind: 'timeout', ...retry };
+  if (/fetch failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|socket hang up/i.test(text)) {
+    return { kind: 'network', ...retry };
+  }
+
+  return { kind: 'unknown', ...retry };
+}
+
+/**
+ * Short, single-line description of an error
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * One log line for a classified error: "[kind] message"
+ */
+export function formatBotError(error: BotError): string {
+  const detail = error.kind === 'router' ? error.errorName : error.kind === 'http' ? `http ${error.status}` : error.kind;
+  return `[${detail}] ${error.message}`;
+}
+
+/**
+ * The error and its causes, outermost first
+ */
+function causes(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  for (let e: unknown = error; e !== undefined && chain.length < 20; ) {
+    chain.push(e);
+    e = e instanceof Error ? e.cause : undefined;
+  }
+  return chain;
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+import { parseGwei } from 'viem';
+import { createTestBot, withTiming, type TestBot } from '../testing';
+import { KnownError } from './errors';
+
+// The mock node estimates max 2.2 gwei (1 gwei base fee × 1.2 + 1 gwei priority)
+const NETWORK = { maxFeePerGas: parseGwei('2.2'), maxPriorityFeePerGas: parseGwei('1') };
+
+describe('FeeStrategy', () => {
+  let bot: TestBot;
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('fixed sends the configured fees whatever the network asks', async () => {
+    bot = await createTestBot({ FEE_STRATEGY: 'fixed', MAX_FEE_PER_GAS: '1.5', MAX_PRIORITY_FEE_PER_GAS: '0.5' });
+
+    assert.deepEqual(await bot.ctx.fees.fees('test'), {
+      maxFeePerGas: parseGwei('1.5'),
+      maxPriorityFeePerGas: parseGwei('0.5'),
+    });
+  });
+
+  it('oracle scales the node estimate by FEE_MULTIPLIER', async () => {
+    bot = await createTestBot({ FEE_STRATEGY: 'oracle', FEE_MULTIPLIER: '1.5' });
+
+    assert.deepEqual(await bot.ctx.fees.quote(), {
+      maxFeePerGas: parseGwei('3.3'),
+      maxPriorityFeePerGas: parseGwei('1.5'),
+      network: NETWORK,
+      deferred: false,
+    });
+  });
+
+  it('capped keeps the scaled estimate under the cap', async () => {
+    bot = await createTestBot({
+      FEE_STRATEGY: 'capped',
+      FEE_MULTIPLIER: '1.5',
+      MAX_FEE_PER_GAS: '3',
+      MAX_PRIORITY_FEE_PER_GAS: '1.2',
+    });
+
+    assert.deepEqual(await bot.ctx.fees.quote(), {
+      maxFeePerGas: parseGwei('3'),
+      maxPriorityFeePerGas: parseGwei('1.2'),
+      network: NETWORK,
+      deferred: false,
+    });
+  });
+
+  it('capped defers while the network fee is above the cap', async () => {
+    bot = await createTestBot({ FEE_STRATEGY: 'capped', MAX_FEE_PER_GAS: '2' });
+    const { ctx, chain } = bot;
+
+    await withTiming({ FEE_DEFER_TIMEOUT: 60_000, FEE_DEFER_POLL_INTERVAL: 10 }, async () => {
+      const fees = ctx.fees.fees('test');
+      await sleep(50);
+      chain.gasPrice = parseGwei('1'); // Base fee 0.5 gwei: estimate 1.1 gwei
+      assert.deepEqual(await fees, {
+        maxFeePerGas: parseGwei('1.1'),
+        maxPriorityFeePerGas: parseGwei('0.5'),
+      });
+    });
+  });
+
+  it('capped gives up after FEE_DEFER_TIMEOUT', async () => {
+    bot = await createTestBot({ FEE_STRATEGY: 'capped', MAX_FEE_PER_GAS: '2' });
+
+    await withTiming({ FEE_DEFER_TIMEOUT: 50, FEE_DEFER_POLL_INTERVAL: 10 }, () =>
+      assert.rejects(
+        bot.ctx.fees.fees('test'),
+        (error) => error instanceof KnownError && error.kind === 'fee-cap' && /stayed above/.test(error.message)
+      )
+    );
+  });
+
+  it('skips a capped rebroadcast that cannot outbid the last attempt', async () => {
+    bot = await createTestBot({ FEE_STRATEGY: 'capped', MAX_FEE_PER_GAS: '2', MAX_PRIORITY_FEE_PER_GAS: '1' });
+
+    const sent = { maxFeePerGas: parseGwei('2'), maxPriorityFeePerGas: parseGwei('1') };
+    assert.equal(await bot.ctx.fees.bump(sent), null);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * EIP-1559 fee strategy for every transaction the bot sends
+ *
+ * - fixed:  MAX_FEE_PER_GAS / MAX_PRIORITY_FEE_PER_GAS as configured
+ * - oracle: the node's estimate (estimateFeesPerGas) times FEE_MULTIPLIER
+ * - capped: oracle, never above MAX_FEE_PER_GAS / MAX_PRIORITY_FEE_PER_GAS;
+ *           sends wait while the network fee itself is above the cap
+ */
+
+import { type PublicClient, formatGwei, parseGwei } from 'viem';
+import type { BotConfig } from '../config';
+import { TIMING, TX_DEFAULTS } from '../config/constants';
+import { KnownError } from './errors';
+import type { Logger } from './logger';
+
+export type FeeStrategyMode = BotConfig['feeStrategy'];
+
+export interface FeeQuote {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * What the strategy would pick right now
+ */
+export interface FeeDecision extends FeeQuote {
+  /** Node estimate (oracle / capped) */
+  network?: FeeQuote;
+  /** Network fee above the cap: the transaction must wait */
+  deferred: boolean;
+}
+
+export class FeeStrategy {
+  private readonly cap: FeeQuote;
+
+  constructor(
+    private readonly config: BotConfig,
+    private readonly publicClient: PublicClient,
+    private readonly log: Logger
+  ) {
+    this.cap = {
+      maxFeePerGas: parseGwei(config.maxFeePerGas),
+      maxPriorityFeePerGas: parseGwei(config.maxPriorityFeePerGas),
+    };
+  }
+
+  get mode(): FeeStrategyMode {
+    return this.config.feeStrategy;
+  }
+
+  /**
+   * Current decision, without waiting or logging
+   */
+  async quote(): Promise<FeeDecision> {
+    if (this.mode === 'fixed') {
+      return { ...this.cap, deferred: false };
+    }
+
+    const estimate = await this.publicClient.estimateFeesPerGas();
+    const network = {
+      maxFeePerGas: estimate.maxFeePerGas,
+      maxPriorityFeePerGas: estimate.maxPriorityFeePerGas,
+    };
+    const fees = {
+      maxFeePerGas: multiply(network.maxFeePerGas, this.config.feeMultiplier),
+      maxPriorityFeePerGas: multiply(network.maxPriorityFeePerGas, this.config.feeMultiplier),
+    };
+
+    if (this.mode === 'oracle') {
+      return { ...fees, network, deferred: false };
+    }
+
+    const maxFeePerGas = min(fees.maxFeePerGas, this.cap.maxFeePerGas);
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: min(fees.maxPriorityFeePerGas, this.cap.maxPriorityFeePerGas, maxFeePerGas),
+      network,
+      deferred: network.maxFeePerGas > this.cap.maxFeePerGas,
+    };
+  }
+
+  /**
+   * Fees for a transaction about to be sent (logged)
+   * While the network fee is above the cap the send is deferred, re-checking
+   * every FEE_DEFER_POLL_INTERVAL, and refused after FEE_DEFER_TIMEOUT.
+   */
+  async fees(label: string): Promise<FeeQuote> {
+    const giveUpAt = Date.now() + TIMING.FEE_DEFER_TIMEOUT;
+
+    for (;;) {
+      const decision = await this.quote();
+      if (!decision.deferred) {
+        this.log.info(`  ⛽ ${label}: ${this.describe(decision)}`);
+        return { maxFeePerGas: decision.maxFeePerGas, maxPriorityFeePerGas: decision.maxPriorityFeePerGas };
+      }
+
+      if (Date.now() >= giveUpAt) {
+        throw new KnownError(
+          'fee-cap',
+          `Network fee ${formatGwei(decision.network!.maxFeePerGas)} gwei stayed above the ` +
+            `${formatGwei(this.cap.maxFeePerGas)} gwei cap for ${TIMING.FEE_DEFER_TIMEOUT / 1000}s (${label} not sent)`
+        );
+      }
+
+      this.log.warn(
+        `  ⛽ ${label}: deferred, network fee ${formatGwei(decision.network!.maxFeePerGas)} gwei ` +
+          `is above the ${formatGwei(this.cap.maxFeePerGas)} gwei cap`
+      );
+      await new Promise((resolve) => setTimeout(resolve, TIMING.FEE_DEFER_POLL_INTERVAL));
+    }
+  }
+
+  /**
+   * Fees for rebroadcasting a stuck transaction: FEE_BUMP_PERCENT above the
+   * last attempt (or the current decision, if higher), at most the cap.
+   * Null when the cap leaves no room for a valid (+10%) replacement.
+   */
+  async bump(current: FeeQuote): Promise<FeeQuote | null> {
+    const decision = await this.quote();
+    const bumped = {
+      maxFeePerGas: max(bumpFee(current.maxFeePerGas), decision.maxFeePerGas),
+      maxPriorityFeePerGas: max(bumpFee(current.maxPriorityFeePerGas), decision.maxPriorityFeePerGas),
+    };
+    if (this.mode !== 'capped') return bumped;
+
+    const maxFeePerGas = min(bumped.maxFeePerGas, this.cap.maxFeePerGas);
+    const capped = {
+      maxFeePerGas,
+      maxPriorityFeePerGas: min(bumped.maxPriorityFeePerGas, this.cap.maxPriorityFeePerGas, maxFeePerGas),
+    };
+    if (
+      capped.maxFeePerGas * 10n < current.maxFeePerGas * 11n ||
+      capped.maxPriorityFeePerGas * 10n < current.maxPriorityFeePerGas * 11n
+    ) {
+      this.log.warn(
+        `  ⛽ Rebroadcast skipped: no room for a higher fee under the ` +
+          `${formatGwei(this.cap.maxFeePerGas)} gwei cap`
+      );
+      return null;
+    }
+    return capped;
+  }
+
+  /**
+   * Gas limit to send with (estimates above GAS_LIMIT are refused)
+   */
+  gasLimit(estimate: bigint, label: string): bigint {
+    if (estimate > BigInt(this.config.gasLimit)) {
+      throw new KnownError('gas-limit', `${label}: estimated gas ${estimate} exceeds GAS_LIMIT ${this.config.gasLimit}`);
+    }
+    return estimate;
+  }
+
+  private describe(decision: FeeDecision): string {
+    const fees =
+      `max ${formatGwei(decision.maxFeePerGas)} gwei, ` +
+      `priority ${formatGwei(decision.maxPriorityFeePerGas)} gwei`;
+
+    switch (this.mode) {
+      case 'fixed':
+        return `${fees} (fixed)`;
+      case 'oracle':
+        return `${fees} (oracle ×${this.config.feeMultiplier})`;
+      case 'capped': {
+        const capped = decision.maxFeePerGas < multiply(decision.network!.maxFeePerGas, this.config.feeMultiplier);
+        return `${fees} (oracle ×${this.config.feeMultiplier}${capped ? ', capped' : ''})`;
+      }
+    }
+  }
+}
+
+function multiply(fee: bigint, multiplier: number): bigint {
+  return (fee * BigInt(Math.round(multiplier * 1000))) / 1000n;
+}
+
+function bumpFee(fee: bigint): bigint {
+  return (fee * BigInt(100 + TX_DEFAULTS.FEE_BUMP_PERCENT)) / 100n;
+}
+
+function min(...values: bigint[]): bigint {
+  return values.reduce((a, b) => (a < b ? a : b));
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
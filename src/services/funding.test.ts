@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { parseEther } from 'viem';
+import { createTestBot, type TestBot } from '../testing';
+import { KnownError } from './errors';
+import { deriveWallet } from './wallet';
+
+describe('Funding', () => {
+  let bot: TestBot;
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  const rejectsWith = (kind: string) => (error: unknown) => error instanceof KnownError && error.kind === kind;
+
+  it('tops up a worker below TOPUP_THRESHOLD, and only then', async () => {
+    // A task costs a little over 11 MON (deploy fee + initial buy + gas)
+    bot = await createTestBot(
+      { TOPUP_BUDGET: '100', WALLET_FUNDING_AMOUNT: '20', TOPUP_THRESHOLD: '30' },
+      ['100', '40', '25']
+    );
+    const { ctx, chain } = bot;
+    const [master, rich, poor] = [0, 1, 2].map((i) => deriveWallet(ctx, i));
+
+    await ctx.funding.preflight(rich!, master!);
+    assert.equal(chain.getBalance(rich!.address), parseEther('40'));
+
+    // Enough for a task, but below the threshold: filled up to it
+    await ctx.funding.preflight(poor!, master!);
+    assert.equal(chain.getBalance(poor!.address), parseEther('30'));
+    assert.equal(ctx.storage.loadState().topUpSpent, parseEther('5').toString());
+
+    const [fund] = ctx.storage.loadLedger();
+    assert.equal(fund?.kind, 'fund');
+    assert.equal(fund?.counterpartyIndex, 2);
+  });
+
+  it('stops topping up once TOPUP_BUDGET is used', async () => {
+    bot = await createTestBot({ TOPUP_BUDGET: '20', WALLET_FUNDING_AMOUNT: '50' }, ['100', '5', '5']);
+    const { ctx, chain } = bot;
+    const [master, first, second] = [0, 1, 2].map((i) => deriveWallet(ctx, i));
+
+    await ctx.funding.preflight(first!, master!);
+    assert.equal(chain.getBalance(first!.address), parseEther('25'));
+
+    await assert.rejects(ctx.funding.preflight(second!, master!), rejectsWith('insufficient-funds'));
+    assert.equal(chain.getBalance(second!.address), parseEther('5'));
+    assert.equal(ctx.storage.loadState().topUpSpent, parseEther('20').toString());
+  });
+
+  it('halts instead of taking the master below MASTER_RESERVE_FLOOR', async () => {
+    bot = await createTestBot(
+      { TOPUP_BUDGET: '100', WALLET_FUNDING_AMOUNT: '50', MASTER_RESERVE_FLOOR: '90' },
+      ['100', '5', '100']
+    );
+    const { ctx, chain } = bot;
+    const [master, poor] = [0, 1].map((i) => deriveWallet(ctx, i));
+
+    await assert.rejects(ctx.funding.preflight(poor!, master!), rejectsWith('reserve-floor'));
+    assert.equal(chain.getBalance(master!.address), parseEther('100'));
+    assert.equal(ctx.storage.loadState().topUpSpent, undefined);
+  });
+
+  it('checks the master reserve with top-ups off', async () => {
+    bot = await createTestBot({ MASTER_RESERVE_FLOOR: '150' });
+    const { ctx } = bot;
+    const [master, worker] = [0, 1].map((i) => deriveWallet(ctx, i));
+
+    await assert.rejects(ctx.funding.preflight(worker!, master!), rejectsWith('reserve-floor'));
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Pre-flight balance check and top-ups from the master wallet
+ *
+ * Before a task sends its create, the worker must hold the task's cost:
+ * deploy fee + INITIAL_BUY_AMOUNT + gas for its transactions at GAS_LIMIT.
+ * A worker below TOPUP_THRESHOLD (default: that cost) is refilled from the
+ * master (index 0) up to WALLET_FUNDING_AMOUNT, out of TOPUP_BUDGET for the
+ * run. The master never goes below MASTER_RESERVE_FLOOR: the run halts instead.
+ */
+
+import { formatEther, parseEther } from 'viem';
+import type { BotConfig } from '../config';
+import { NETWORK_CONFIG, TX_DEFAULTS } from '../config/constants';
+import { KnownError } from './errors';
+import type { FeeStrategy } from './fees';
+import type { Ledger } from './ledger';
+import type { Logger } from './logger';
+import type { Storage } from './storage';
+import { getBalance, sendNative, type WalletInstance } from './wallet';
+
+// Gas of a plain MON transfer
+const TRANSFER_GAS = 21_000n;
+
+export class Funding {
+  // Top-ups run one at a time, so budget and reserve checks see every earlier one
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly config: BotConfig,
+    private readonly storage: Storage,
+    private readonly fees: FeeStrategy,
+    private readonly ledger: Ledger,
+    private readonly log: Logger
+  ) {}
+
+  get topUpsEnabled(): boolean {
+    return parseEther(this.config.topUpBudget) > 0n;
+  }
+
+  /**
+   * MON a worker needs for one task at current fees
+   */
+  async taskCost(): Promise<bigint> {
+    const { maxFeePerGas } = await this.fees.quote();
+    const gas = BigInt(this.config.gasLimit) * BigInt(TX_DEFAULTS.TASK_GAS_TRANSACTIONS);
+    return parseEther(NETWORK_CONFIG.DEPLOY_FEE) + parseEther(this.config.initialBuyAmount) + gas * maxFeePerGas;
+  }
+
+  /**
+   * Make sure the worker can pay for a task, topping it up when allowed
+   * Throws insufficient-funds (task skipped) when it cannot be covered, and
+   * reserve-floor (run halted) when the master is at its floor.
+   */
+  async preflight(wallet: WalletInstance, master: WalletInstance): Promise<void> {
+    const cost = await this.taskCost();
+    const threshold = max(cost, parseEther(this.config.topUpThreshold ?? '0'));
+    const balance = await getBalance(wallet);
+
+    await this.checkReserve(master);
+
+    if (balance >= threshold) {
+      this.log.debug(`Pre-flight: ${formatEther(balance)} MON, task needs ${formatEther(cost)} MON`);
+      return;
+    }
+
+    if (!this.topUpsEnabled) {
+      if (balance >= cost) return;
+      throw new KnownError(
+        'insufficient-funds',
+        `Wallet [${wallet.index}] has ${formatEther(balance)} MON, a task needs ${formatEther(cost)} MON (top-ups disabled)`
+      );
+    }
+
+    await this.serialize(() => this.topUp(wallet, master, balance, cost, threshold));
+  }
+
+  private async topUp(
+    wallet: WalletInstance,
+    master: WalletInstance,
+    balance: bigint,
+    cost: bigint,
+    threshold: bigint
+  ): Promise<void> {
+    const budget = parseEther(this.config.topUpBudget);
+    const spent = BigInt(this.storage.loadState().topUpSpent ?? '0');
+    const target = max(parseEther(this.config.walletFundingAmount), threshold);
+    const amount = min(target - balance, budget - spent);
+
+    if (balance + amount < cost) {
+      if (balance >= cost) return;
+      throw new KnownError(
+        'insufficient-funds',
+        `Wallet [${wallet.index}] has ${formatEther(balance)} MON, a task needs ${formatEther(cost)} MON, ` +
+          `and the top-up budget has ${formatEther(budget - spent)} of ${this.config.topUpBudget} MON left`
+      );
+    }
+    if (amount <= 0n) return;
+
+    const { maxFeePerGas } = await this.fees.quote();
+    const masterBalance = await getBalance(master);
+    const floor = parseEther(this.config.masterReserveFloor);
+    if (masterBalance - amount - TRANSFER_GAS * maxFeePerGas < floor) {
+      throw new KnownError(
+        'reserve-floor',
+        `Topping up wallet [${wallet.index}] with ${formatEther(amount)} MON would take the master ` +
+          `(${formatEther(masterBalance)} MON) below its ${this.config.masterReserveFloor} MON reserve floor`
+      );
+    }
+
+    this.log.info(
+      `  💸 Topping up wallet [${wallet.index}] from master: ${formatEther(balance)} → ` +
+        `${formatEther(balance + amount)} MON`
+    );
+    const receipt = await sendNative(master, wallet.address, amount);
+    const hash = receipt.transactionHash;
+
+    // Only MON that reached the worker counts against the budget, and it is
+    // counted before anything else can fail
+    const success = receipt.status === 'success';
+    if (success) {
+      await this.storage.updateState((state) => {
+        state.topUpSpent = (BigInt(state.topUpSpent ?? '0') + amount).toString();
+      });
+    }
+    await this.ledger.recordTransfer(master, receipt, 'fund', wallet, this.storage.loadState().runId);
+
+    if (!success) {
+      this.log.warn(`  ⚠️  Top-up of wallet [${wallet.index}] reverted`, { txHash: hash });
+      if (balance >= cost) return;
+      throw new KnownError(
+        'insufficient-funds',
+        `Wallet [${wallet.index}] has ${formatEther(balance)} MON, a task needs ${formatEther(cost)} MON, ` +
+          `and its top-up reverted (${hash})`
+      );
+    }
+    this.log.info(
+      `  💸 Top-up sent (budget used: ${formatEther(spent + amount)}/${this.config.topUpBudget} MON)`,
+      { txHash: hash }
+    );
+  }
+
+  private async checkReserve(master: WalletInstance): Promise<void> {
+    const floor = parseEther(this.config.masterReserveFloor);
+    const masterBalance = await getBalance(master);
+    if (masterBalance < floor) {
+      throw new KnownError(
+        'reserve-floor',
+        `Master balance ${formatEther(masterBalance)} MON is below its ${this.config.masterReserveFloor} MON reserve floor`
+      );
+    }
+  }
+
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(fn);
+    this.tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { parseEther, type Address, type Hash } from 'viem';
+import { createTestBot, type TestBot } from '../testing';
+import { NO_RUN, formatTotals, summarizeLedger, type LedgerEntry } from './ledger';
+import { deriveWallet, sendNative } from './wallet';
+
+const WALLETS: Address[] = [
+  '0x1000000000000000000000000000000000000000',
+  '0x1000000000000000000000000000000000000001',
+  '0x1000000000000000000000000000000000000002',
+];
+const TOKEN_1: Address = '0x2000000000000000000000000000000000000001';
+const TOKEN_2: Address = '0x2000000000000000000000000000000000000002';
+
+let hashes = 0;
+
+function entry(fields: Partial<LedgerEntry> & Pick<LedgerEntry, 'kind' | 'walletIndex'>): LedgerEntry {
+  return {
+    timestamp: 0,
+    txHash: `0x${(++hashes).toString(16).padStart(64, '0')}` as Hash,
+    blockNumber: '1',
+    status: 'success',
+    wallet: WALLETS[fields.walletIndex]!,
+    gasUsed: '0',
+    effectiveGasPrice: '0',
+    gasCost: '0',
+    monIn: '0',
+    monOut: '0',
+    deployFee: '0',
+    tokensIn: '0',
+    tokensOut: '0',
+    ...fields,
+  };
+}
+
+const mon = (amount: string) => parseEther(amount).toString();
+
+const ENTRIES: LedgerEntry[] = [
+  entry({
+    runId: 'run-a',
+    kind: 'create',
+    walletIndex: 1,
+    tokenIndex: 0,
+    tokenAddress: TOKEN_1,
+    symbol: 'ONE',
+    gasCost: mon('0.01'),
+    monOut: mon('11'),
+    deployFee: mon('10'),
+    tokensIn: mon('1000'),
+  }),
+  entry({
+    runId: 'run-a',
+    kind: 'sell',
+    walletIndex: 1,
+    tokenIndex: 0,
+    tokenAddress: TOKEN_1,
+    symbol: 'ONE',
+    gasCost: mon('0.01'),
+    monIn: mon('5'),
+    tokensOut: mon('1000'),
+    estimated: true,
+  }),
+  entry({
+    runId: 'run-b',
+    kind: 'approve',
+    walletIndex: 2,
+    tokenIndex: 1,
+    tokenAddress: TOKEN_2,
+    symbol: 'TWO',
+    status: 'reverted',
+    gasCost: mon('0.02'),
+  }),
+  // Funding script: no run
+  entry({
+    kind: 'fund',
+    walletIndex: 0,
+    counterparty: WALLETS[1],
+    counterpartyIndex: 1,
+    gasCost: mon('0.01'),
+    monOut: mon('20'),
+  }),
+];
+
+describe('summarizeLedger', () => {
+  const summary = summarizeLedger(ENTRIES);
+
+  it('totals every entry', () => {
+    assert.deepEqual(formatTotals(summary.total), {
+      txs: 4,
+      failed_txs: 1,
+      gas_mon: '0.05',
+      deploy_fees_mon: '10',
+      initial_buys_mon: '1',
+      sell_proceeds_mon: '5',
+      tokens_bought: '1000',
+      tokens_sold: '1000',
+      funds_in_mon: '0',
+      funds_out_mon: '20',
+      net_mon: '-6.05',
+      estimated: 'yes',
+    });
+  });
+
+  it('groups by token, with its symbol and wallet', () => {
+    const one = summary.byToken.get(TOKEN_1)!;
+    assert.equal(one.symbol, 'ONE');
+    assert.equal(one.walletIndex, 1);
+    assert.equal(one.txs, 2);
+    assert.equal(one.net, parseEther('-6.02'));
+    assert.equal(summary.byToken.get(TOKEN_2)!.failedTxs, 1);
+    assert.equal(summary.byToken.size, 2);
+  });
+
+  it('credits transfers to the receiving wallet', () => {
+    const master = summary.byWallet.get(0)!;
+    const worker = summary.byWallet.get(1)!;
+    assert.equal(master.fundsOut, parseEther('20'));
+    assert.equal(worker.fundsIn, parseEther('20'));
+    assert.equal(worker.address, WALLETS[1]);
+    // Transfers stay out of the trading net
+    assert.equal(worker.net, parseEther('-6.02'));
+  });
+
+  it('groups by run, with entries outside a run under NO_RUN', () => {
+    assert.deepEqual([...summary.byRun.keys()], ['run-a', 'run-b', NO_RUN]);
+    assert.equal(summary.byRun.get('run-a')!.estimated, true);
+    assert.equal(summary.byRun.get('run-b')!.estimated, false);
+    assert.equal(summary.byRun.get(NO_RUN)!.fundsOut, parseEther('20'));
+    assert.equal(formatTotals(summary.byRun.get('run-b')!).estimated, '');
+  });
+});
+
+describe('Ledger', () => {
+  let bot: TestBot;
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('records a transfer under the run it is given, and none otherwise', async () => {
+    bot = await createTestBot();
+    const { ctx } = bot;
+    await ctx.storage.updateState((state) => {
+      state.runId = 'run-1';
+    });
+    const [master, worker] = [0, 1].map((i) => deriveWallet(ctx, i));
+
+    const scripted = await sendNative(master!, worker!.address, parseEther('1'));
+    await ctx.ledger.recordTransfer(master!, scripted, 'fund', worker!);
+    const topUp = await sendNative(master!, worker!.address, parseEther('1'));
+    await ctx.ledger.recordTransfer(master!, topUp, 'fund', worker!, 'run-1');
+    // Each hash once
+    await ctx.ledger.recordTransfer(master!, topUp, 'fund', worker!, 'run-1');
+
+    const entries = ctx.storage.loadLedger();
+    assert.deepEqual(entries.map((e) => e.runId), [undefined, 'run-1']);
+    assert.deepEqual(entries.map((e) => e.monOut), [mon('1'), mon('1')]);
+    assert.equal(entries[0]!.counterpartyIndex, 1);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * P&L ledger
+ *
+ * One line per mined transaction in data/ledger.jsonl, built from the
+ * receipt: gas, MON in/out and tokens in/out. `npm run report` aggregates it.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type TransactionReceipt,
+  formatEther,
+  getAddress,
+  parseEther,
+  parseEventLogs,
+} from 'viem';
+import { erc20EventsAbi } from '../abi';
+import { NETWORK_CONFIG } from '../config/constants';
+import type { Metrics } from './metrics';
+import type { Storage } from './storage';
+import type { WalletInstance } from './wallet';
+
+export type LedgerKind = 'create' | 'approve' | 'sell' | 'fund' | 'withdraw';
+
+/**
+ * One mined transaction (bigints stored as decimal strings, in wei / token base units)
+ */
+export interface LedgerEntry {
+  runId?: string;
+  timestamp: number;
+  kind: LedgerKind;
+  txHash: Hash;
+  blockNumber: string;
+  status: 'success' | 'reverted';
+  walletIndex: number;
+  wallet: Address;
+  counterparty?: Address;
+  counterpartyIndex?: number;
+  tokenIndex?: number;
+  tokenAddress?: Address;
+  symbol?: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  gasCost: string;
+  monIn: string;
+  monOut: string;
+  deployFee: string;
+  tokensIn: string;
+  tokensOut: string;
+  /** monIn taken from the quote because the node could not serve historical balances */
+  estimated?: boolean;
+}
+
+/**
+ * What the receipt alone does not say
+ */
+export interface LedgerDetails {
+  kind: LedgerKind;
+  /** Run the transaction belongs to (none for the funding / withdrawal scripts) */
+  runId?: string;
+  tokenIndex?: number;
+  tokenAddress?: Address;
+  symbol?: string;
+  counterparty?: Address;
+  counterpartyIndex?: number;
+  /** Quoted sell proceeds, used when the balance change cannot be read */
+  quotedMonIn?: bigint;
+}
+
+/**
+ * Appends mined transactions to the ledger (each hash once)
+ */
+export class Ledger {
+  private recorded?: Set<string>;
+
+  constructor(
+    private readonly storage: Storage,
+    private readonly metrics: Metrics
+  ) {}
+
+  /**
+   * Record a mined transaction. Never throws: accounting must not fail a trade.
+   */
+  async record(
+    wallet: WalletInstance,
+    receipt: TransactionReceipt,
+    details: LedgerDetails
+  ): Promise<LedgerEntry | null> {
+    try {
+      this.recorded ??= new Set(this.storage.loadLedger().map((e) => e.txHash));
+      if (this.recorded.has(receipt.transactionHash)) return null;
+
+      // Marked once written, so a failed attempt can be recorded again
+      const entry = await this.buildEntry(wallet, receipt, details);
+      if (this.recorded.has(receipt.transactionHash)) return null;
+      this.storage.appendLedger(entry);
+      this.recorded.add(receipt.transactionHash);
+      this.metrics.gas(BigInt(entry.gasCost));
+      return entry;
+    } catch (error) {
+      wallet.log.warn(
+        `  ⚠️  Ledger: could not record ${details.kind} ${receipt.transactionHash}: ` +
+          (error instanceof Error ? error.message : String(error)),
+        { txHash: receipt.transactionHash }
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Record a native transfer between the bot's wallets (top-ups, funding / withdrawal scripts)
+   */
+  async recordTransfer(
+    wallet: WalletInstance,
+    receipt: TransactionReceipt,
+    kind: 'fund' | 'withdraw',
+    to: WalletInstance,
+    runId?: string
+  ): Promise<void> {
+    await this.record(wallet, receipt, {
+      kind,
+      runId,
+      counterparty: to.address,
+      counterpartyIndex: to.index,
+    });
+  }
+
+  private async buildEntry(
+    wallet: WalletInstance,
+    receipt: TransactionReceipt,
+    details: LedgerDetails
+  ): Promise<LedgerEntry> {
+    const success = receipt.status === 'success';
+    const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
+
+    // Value only leaves the wallet if the transaction succeeded
+    const tx = await wallet.publicClient.getTransaction({ hash: receipt.transactionHash });
+    const monOut = success ? tx.value : 0n;
+    const deployFee =
+      success && details.kind === 'create' ? parseEther(NETWORK_CONFIG.DEPLOY_FEE) : 0n;
+
+    const tokens = details.tokenAddress
+      ? tokenTransfers(receipt, details.tokenAddress, wallet.address)
+      : { tokensIn: 0n, tokensOut: 0n };
+
+    let monIn = 0n;
+    let estimated: boolean | undefined;
+    if (success && details.kind === 'sell') {
+      try {
+        monIn = await nativeReceived(wallet, receipt, gasCost + monOut);
+      } catch {
+        monIn = details.quotedMonIn ?? 0n;
+        estimated = true;
+      }
+    }
+
+    return {
+      runId: details.runId,
+      timestamp: Date.now(),
+      kind: details.kind,
+      txHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber.toString(),
+      status: receipt.status,
+      walletIndex: wallet.index,
+      wallet: wallet.address,
+      counterparty: details.counterparty,
+      counterpartyIndex: details.counterpartyIndex,
+      tokenIndex: details.tokenIndex,
+      tokenAddress: details.tokenAddress,
+      symbol: details.symbol,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+      gasCost: gasCost.toString(),
+      monIn: monIn.toString(),
+      monOut: monOut.toString(),
+      deployFee: deployFee.toString(),
+      tokensIn: tokens.tokensIn.toString(),
+      tokensOut: tokens.tokensOut.toString(),
+      estimated,
+    };
+  }
+}
+
+/**
+ * Token amounts moved to / from the wallet, from Transfer logs
+ */
+function tokenTransfers(
+  receipt: TransactionReceipt,
+  tokenAddress: Address,
+  owner: Address
+): { tokensIn: bigint; tokensOut: bigint } {
+  const token = getAddress(tokenAddress);
+  const logs = parseEventLogs({ abi: erc20EventsAbi, eventName: 'Transfer', logs: receipt.logs, strict: false });
+
+  let tokensIn = 0n;
+  let tokensOut = 0n;
+  for (const log of logs) {
+    if (getAddress(log.address) !== token || log.args.value === undefined) continue;
+    if (log.args.to && getAddress(log.args.to) === owner) tokensIn += log.args.value;
+    if (log.args.from && getAddress(log.args.from) === owner) tokensOut += log.args.value;
+  }
+  return { tokensIn, tokensOut };
+}
+
+/**
+ * MON received in the receipt's block: balance change plus what the wallet paid
+ * (native proceeds emit no logs; assumes no other transfer in that block)
+ */
+async function nativeReceived(
+  wallet: WalletInstance,
+  receipt: TransactionReceipt,
+  paid: bigint
+): Promise<bigint> {
+  const [before, after] = await Promise.all([
+    wallet.publicClient.getBalance({
+      address: wallet.address,
+      blockNumber: receipt.blockNumber - 1n,
+    }),
+    wallet.publicClient.getBalance({
+      address: wallet.address,
+      blockNumber: receipt.blockNumber,
+    }),
+  ]);
+  const received = after - before + paid;
+  if (received < 0n) {
+    throw new Error('Balance decreased more than the transaction cost');
+  }
+  return received;
+}
+
+/**
+ * Aggregated totals (wei / token base units)
+ */
+export interface LedgerTotals {
+  txs: number;
+  failedTxs: number;
+  gasCost: bigint;
+  deployFees: bigint;
+  initialBuys: bigint;
+  sellProceeds: bigint;
+  tokensBought: bigint;
+  tokensSold: bigint;
+  fundsIn: bigint;
+  fundsOut: bigint;
+  /** sellProceeds - deployFees - initialBuys - gasCost (transfers excluded) */
+  net: bigint;
+  estimated: boolean;
+}
+
+export interface LedgerSummary {
+  byToken: Map<string, LedgerTotals & { symbol?: string; walletIndex: number }>;
+  byWallet: Map<number, LedgerTotals & { address: Address }>;
+  byRun: Map<string, LedgerTotals>;
+  total: LedgerTotals;
+}
+
+export const NO_RUN = '(no run)';
+
+function emptyTotals(): LedgerTotals {
+  return {
+    txs: 0,
+    failedTxs: 0,
+    gasCost: 0n,
+    deployFees: 0n,
+    initialBuys: 0n,
+    sellProceeds: 0n,
+    tokensBought: 0n,
+    tokensSold: 0n,
+    fundsIn: 0n,
+    fundsOut: 0n,
+    net: 0n,
+    estimated: false,
+  };
+}
+
+function addEntry(totals: LedgerTotals, entry: LedgerEntry): void {
+  const gasCost = BigInt(entry.gasCost);
+  const monOut = BigInt(entry.monOut);
+  const deployFee = BigInt(entry.deployFee);
+
+  totals.txs++;
+  if (entry.status === 'reverted') totals.failedTxs++;
+  totals.gasCost += gasCost;
+  totals.net -= gasCost;
+
+  switch (entry.kind) {
+    case 'create':
+      totals.deployFees += deployFee;
+      totals.initialBuys += monOut - deployFee;
+      totals.tokensBought += BigInt(entry.tokensIn);
+      totals.net -= monOut;
+      break;
+    case 'sell':
+      totals.sellProceeds += BigInt(entry.monIn);
+      totals.tokensSold += BigInt(entry.tokensOut);
+      totals.net += BigInt(entry.monIn);
+      break;
+    case 'fund':
+    case 'withdraw':
+      totals.fundsOut += monOut;
+      break;
+  }
+
+  if (entry.estimated) totals.estimated = true;
+}
+
+/**
+ * Aggregate ledger entries per token, per wallet and per run
+ */
+export function summarizeLedger(entries: LedgerEntry[]): LedgerSummary {
+  const summary: LedgerSummary = {
+    byToken: new Map(),
+    byWallet: new Map(),
+    byRun: new Map(),
+    total: emptyTotals(),
+  };
+
+  const walletTotals = (index: number, address: Address) => {
+    let totals = summary.byWallet.get(index);
+    if (!totals) {
+      totals = { ...emptyTotals(), address };
+      summary.byWallet.set(index, totals);
+    }
+    return totals;
+  };
+
+  for (const entry of entries) {
+    addEntry(summary.total, entry);
+    addEntry(walletTotals(entry.walletIndex, entry.wallet), entry);
+
+    // Transfers credit the receiving wallet
+    if (entry.counterparty && entry.counterpartyIndex !== undefined && entry.status === 'success') {
+      walletTotals(entry.counterpartyIndex, entry.counterparty).fundsIn += BigInt(entry.monOut);
+    }
+
+    const runId = entry.runId ?? NO_RUN;
+    const run = summary.byRun.get(runId) ?? emptyTotals();
+    addEntry(run, entry);
+    summary.byRun.set(runId, run);
+
+    if (entry.tokenAddress) {
+      let token = summary.byToken.get(entry.tokenAddress);
+      if (!token) {
+        token = { ...emptyTotals(), symbol: entry.symbol, walletIndex: entry.walletIndex };
+        summary.byToken.set(entry.tokenAddress, token);
+      }
+      addEntry(token, entry);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Totals as display / CSV columns (MON and token amounts in ether units)
+ */
+export function formatTotals(totals: LedgerTotals): Record<string, string | number> {
+  return {
+    txs: totals.txs,
+    failed_txs: totals.failedTxs,
+    gas_mon: formatEther(totals.gasCost),
+    deploy_fees_mon: formatEther(totals.deployFees),
+    initial_buys_mon: formatEther(totals.initialBuys),
+    sell_proceeds_mon: formatEther(totals.sellProceeds),
+    tokens_bought: formatEther(totals.tokensBought),
+    tokens_sold: formatEther(totals.tokensSold),
+    funds_in_mon: formatEther(totals.fundsIn),
+    funds_out_mon: formatEther(totals.fundsOut),
+    net_mon: formatEther(totals.net),
+    estimated: totals.estimated ? 'yes' : '',
+  };
+}
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { parseEther, parseGwei, type Address } from 'viem';
+import { createTestBot, type TestBot } from '../testing';
+import { KnownError } from './errors';
+
+const WALLET: Address = '0x1000000000000000000000000000000000000001';
+const GAS = 100_000n;
+
+describe('RunLimits', () => {
+  let bot: TestBot;
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('refuses a send past MAX_RUN_SPEND and drains, but still lets unwinds through', async () => {
+    bot = await createTestBot({ MAX_RUN_SPEND: '1' });
+    const { limits } = bot.ctx;
+    const maxFeePerGas = parseGwei('2');
+
+    limits.authorize(WALLET, { label: 'buy', value: parseEther('0.9'), gas: GAS, maxFeePerGas });
+    assert.throws(
+      () => limits.authorize(WALLET, { label: 'buy', value: parseEther('0.2'), gas: GAS, maxFeePerGas }),
+      (error) => error instanceof KnownError && error.kind === 'limit'
+    );
+    assert.ok(limits.signal.aborted);
+    assert.match(limits.tripped ?? '', /MAX_RUN_SPEND/);
+
+    // Draining: nothing new, sells still go out
+    assert.throws(() => limits.authorize(WALLET, { label: 'create', value: 0n, gas: GAS, maxFeePerGas }), /draining/);
+    limits.authorize(WALLET, { label: 'sell', value: 0n, gas: GAS, maxFeePerGas, unwind: true });
+  });
+
+  it('exempts unwinds from MAX_GAS_PRICE', async () => {
+    bot = await createTestBot({ MAX_GAS_PRICE: '5' });
+    const { limits } = bot.ctx;
+    const maxFeePerGas = parseGwei('10');
+
+    limits.authorize(WALLET, { label: 'sell', value: 0n, gas: GAS, maxFeePerGas, unwind: true });
+    assert.equal(limits.tripped, undefined);
+
+    assert.throws(() => limits.authorize(WALLET, { label: 'buy', value: 0n, gas: GAS, maxFeePerGas }), /MAX_GAS_PRICE/);
+    assert.ok(limits.signal.aborted);
+  });
+
+  it('counts the actual cost once settled', async () => {
+    bot = await createTestBot({ MAX_WALLET_SPEND: '1' });
+    const { limits } = bot.ctx;
+    const maxFeePerGas = parseGwei('2');
+
+    const counted = limits.authorize(WALLET, { label: 'buy', value: parseEther('0.9'), gas: GAS, maxFeePerGas });
+    limits.settle(WALLET, counted, 0n); // Reverted before spending anything
+    limits.authorize(WALLET, { label: 'buy', value: parseEther('0.9'), gas: GAS, maxFeePerGas });
+    assert.equal(limits.tripped, undefined);
+  });
+
+  it('trips after MAX_CONSECUTIVE_FAILURES failed tasks in a row', async () => {
+    bot = await createTestBot({ MAX_CONSECUTIVE_FAILURES: '2' });
+    const { limits } = bot.ctx;
+
+    limits.taskFailed();
+    limits.taskSucceeded();
+    limits.taskFailed();
+    assert.equal(limits.tripped, undefined);
+    limits.taskFailed();
+    assert.match(limits.tripped ?? '', /2 consecutive failed tasks/);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Run safety limits
+ *
+ * Hard caps checked before every transaction the bot sends (through the
+ * wallet's NonceManager): MAX_RUN_SPEND, MAX_WALLET_SPEND and MAX_GAS_PRICE,
+ * plus MAX_CONSECUTIVE_FAILURES counted by the scheduler. The first cap hit
+ * trips the limits: the run drains (no new creates, pending sells finish).
+ *
+ * Spend is MON leaving the bot's wallets: gas plus the value sent to
+ * contracts. Transfers between the bot's own wallets count their gas only.
+ * A transaction counts at its worst case (gas limit × max fee) until its
+ * receipt gives the actual cost; mined transactions of the current run are
+ * read back from the ledger on restart.
+ */
+
+import { type Address, formatEther, formatGwei, getAddress, parseEther, parseGwei } from 'viem';
+import type { BotConfig } from '../config';
+import { KnownError } from './errors';
+import type { Logger } from './logger';
+import type { Storage } from './storage';
+
+/**
+ * What a transaction may cost, before it is sent
+ */
+export interface PlannedSpend {
+  label: string;
+  value: bigint;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  /** Transfer between the bot's own wallets (only gas counts) */
+  internal?: boolean;
+  /** Approve / sell: allowed past the spend caps and while draining */
+  unwind?: boolean;
+}
+
+export class RunLimits {
+  private spent?: { run: bigint; wallets: Map<Address, bigint> };
+  private consecutiveFailures = 0;
+  private readonly drain = new AbortController();
+
+  constructor(
+    private readonly config: BotConfig,
+    private readonly storage: Storage,
+    private readonly log: Logger
+  ) {}
+
+  /**
+   * Aborted (reason: a limit KnownError) once a cap is hit
+   */
+  get signal(): AbortSignal {
+    return this.drain.signal;
+  }
+
+  /**
+   * Why the run is draining, if it is
+   */
+  get tripped(): string | undefined {
+    return this.drain.signal.aborted ? (this.drain.signal.reason as Error).message : undefined;
+  }
+
+  /**
+   * Check a transaction against the caps and count it (worst case)
+   * Returns the amount counted, to settle once the receipt is known.
+   */
+  authorize(from: Address, spend: PlannedSpend): bigint {
+    const cost = spend.gas * spend.maxFeePerGas + (spend.internal ? 0n : spend.value);
+    const spent = this.load();
+    const wallet = getAddress(from);
+    const walletSpent = spent.wallets.get(wallet) ?? 0n;
+
+    // Unwinding (approve / sell) is exempt, so pending sells still complete
+    if (!spend.unwind) {
+      if (this.tripped) {
+        throw new KnownError('limit', `Run is draining (${this.tripped}): ${spend.label} not sent`);
+      }
+      if (!this.gasPriceAllowed(spend.maxFeePerGas)) {
+        this.refuse(
+          `Max fee ${formatGwei(spend.maxFeePerGas)} gwei is above MAX_GAS_PRICE ` +
+            `${this.config.maxGasPrice} gwei (${spend.label} not sent)`
+        );
+      }
+      if (this.config.maxRunSpend && spent.run + cost > parseEther(this.config.maxRunSpend)) {
+        this.refuse(
+          `Run spend would reach ${formatEther(spent.run + cost)} MON, above MAX_RUN_SPEND ` +
+            `${this.config.maxRunSpend} MON (${spend.label} not sent)`
+        );
+      }
+      if (this.config.maxWalletSpend && walletSpent + cost > parseEther(this.config.maxWalletSpend)) {
+        this.refuse(
+          `Wallet ${wallet} spend would reach ${formatEther(walletSpent + cost)} MON, above ` +
+            `MAX_WALLET_SPEND ${this.config.maxWalletSpend} MON (${spend.label} not sent)`
+        );
+      }
+    }
+
+    spent.run += cost;
+    spent.wallets.set(wallet, walletSpent + cost);
+    return cost;
+  }
+
+  /**
+   * Replace a counted amount with the actual one (receipt, or a rebroadcast's new worst case)
+   */
+  settle(from: Address, counted: bigint, actual: bigint): void {
+    const spent = this.load();
+    const wallet = getAddress(from);
+    spent.run += actual - counted;
+    spent.wallets.set(wallet, (spent.wallets.get(wallet) ?? 0n) + actual - counted);
+  }
+
+  gasPriceAllowed(maxFeePerGas: bigint): boolean {
+    return !this.config.maxGasPrice || maxFeePerGas <= parseGwei(this.config.maxGasPrice);
+  }
+
+  taskSucceeded(): void {
+    this.consecutiveFailures = 0;
+  }
+
+  taskFailed(): void {
+    this.consecutiveFailures++;
+    const max = this.config.maxConsecutiveFailures;
+    if (max !== undefined && this.consecutiveFailures >= max) {
+      this.trip(`${this.consecutiveFailures} consecutive failed tasks (MAX_CONSECUTIVE_FAILURES ${max})`);
+    }
+  }
+
+  /**
+   * Run and per-wallet spend so far (the current run's ledger, read once)
+   */
+  private load(): { run: bigint; wallets: Map<Address, bigint> } {
+    if (!this.spent) {
+      const { runId } = this.storage.loadState();
+      this.spent = { run: 0n, wallets: new Map() };
+      if (runId) {
+        for (const entry of this.storage.loadLedger()) {
+          if (entry.runId !== runId) continue;
+          const internal = entry.kind === 'fund' || entry.kind === 'withdraw';
+          const cost = BigInt(entry.gasCost) + (internal ? 0n : BigInt(entry.monOut));
+          const wallet = getAddress(entry.wallet);
+          this.spent.run += cost;
+          this.spent.wallets.set(wallet, (this.spent.wallets.get(wallet) ?? 0n) + cost);
+        }
+      }
+    }
+    return this.spent;
+  }
+
+  private refuse(reason: string): never {
+    this.trip(reason);
+    throw new KnownError('limit', reason);
+  }
+
+  private trip(reason: string): void {
+    if (this.drain.signal.aborted) return;
+    this.log.error(`🛑 Limit reached: ${reason}`);
+    this.log.error(`🛑 Draining: no new creates, pending sells still complete`);
+    this.drain.abort(new KnownError('limit', reason));
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Structured logging (winston)
+ *
+ * The console gets the human-readable lines; LOG_DIR gets the same entries as
+ * JSON, one per line, with the context fields of the task that logged them
+ * (runId, tokenIndex, walletIndex, symbol, phase, plus txHash where known).
+ * Context follows async calls, so parallel tasks never mix their fields.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { resolve } from 'path';
+import winston from 'winston';
+import type { BotConfig } from '../config';
+
+export type Logger = winston.Logger;
+
+/**
+ * Fields attached to every entry logged inside a context
+ */
+export interface LogContext {
+  runId?: string;
+  tokenIndex?: number;
+  walletIndex?: number;
+  wallet?: string;
+  symbol?: string;
+  phase?: string;
+  txHash?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with extra context fields (merged over the current ones)
+ */
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Update the current context in place (e.g. a task's phase)
+ * No-op outside withLogContext.
+ */
+export function setLogContext(fields: LogContext): void {
+  const store = contextStorage.getStore();
+  if (store) Object.assign(store, fields);
+}
+
+// Banners and spacing are for the console only
+const dropBanners = winston.format((info) => {
+  const message = String(info.message).trim();
+  if (/^[=\-\s]*$/.test(message)) return false;
+  info.message = message;
+  return info;
+})();
+
+/**
+ * Console (LOG_LEVEL, message only) + JSON file in LOG_DIR (everything down to debug)
+ */
+export function createLogger(config: BotConfig): Logger {
+  const transports: winston.transport[] = [
+    new winston.transports.Console({
+      level: config.logLevel,
+      stderrLevels: ['error'],
+      format: winston.format.printf((info) => String(info.message)),
+    }),
+  ];
+
+  if (config.logDir) {
+    transports.push(
+      new winston.transports.File({
+        level: 'debug',
+        filename: resolve(config.logDir, 'bot.log'),
+        maxsize: 50 * 1024 * 1024,
+        maxFiles: 10,
+        tailable: true,
+        format: winston.format.combine(
+          dropBanners,
+          winston.format.timestamp(),
+          winston.format.json()
+        ),
+      })
+    );
+  }
+
+  const logger = winston.createLogger({
+    level: 'debug',
+    defaultMeta: { network: config.networkMode },
+    transports,
+  });
+
+  // Context is merged when the entry is written (as winston's child() does):
+  // transports may format it later, outside the caller's async context
+  return Object.create(logger, {
+    write: {
+      value: (info: winston.LogEntry) => logger.write({ ...contextStorage.getStore(), ...info }),
+    },
+  });
+}
+
+/**
+ * Flush and close every transport (call before process.exit)
+ */
+export function closeLogger(log: Logger): Promise<void> {
+  const closed = log.transports.map(
+    (transport) => new Promise((resolve) => transport.once('finish', resolve))
+  );
+  log.end();
+  return Promise.all(closed).then(() => undefined);
+}
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadManifest, validateManifest } from './manifest';
+
+describe('loadManifest', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'token-bot-manifest-'));
+    mkdirSync(join(dir, 'images'));
+    writeFileSync(join(dir, 'images', 'pepe.png'), 'png');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses a CSV manifest with quoted fields and resolves images next to it', () => {
+    writeFileSync(
+      join(dir, 'manifest.csv'),
+      'Name,Symbol,Description,Image,Weight\r\n' +
+        'Pepe,PEPE,"Frogs, ""rare"" ones",images/pepe.png,2\r\n' +
+        '\r\n' +
+        'Doge,DOGE,"Two\nlines",images/doge.png,\r\n'
+    );
+
+    const entries = loadManifest(dir);
+    assert.equal(entries.length, 2);
+    assert.deepEqual(entries[0], {
+      name: 'Pepe',
+      symbol: 'PEPE',
+      description: 'Frogs, "rare" ones',
+      image: join(dir, 'images', 'pepe.png'),
+      twitter: undefined,
+      telegram: undefined,
+      website: undefined,
+      weight: 2,
+    });
+    assert.equal(entries[1]!.description, 'Two\nlines');
+    assert.equal(entries[1]!.weight, undefined);
+  });
+
+  it('accepts a JSON manifest as { tokens: [...] } with image_path', () => {
+    const file = join(dir, 'tokens.json');
+    writeFileSync(
+      file,
+      JSON.stringify({ tokens: [{ name: 'Pepe', symbol: 'PEPE', description: 'Frog', image_path: 'images/pepe.png' }] })
+    );
+
+    const [entry] = loadManifest(file);
+    assert.equal(entry!.image, join(dir, 'images', 'pepe.png'));
+  });
+
+  it('reads a folder of images with a JSON sidecar each', () => {
+    const images = join(dir, 'images');
+    writeFileSync(join(images, 'pepe.json'), JSON.stringify({ name: 'Pepe', symbol: 'PEPE', description: 'Frog' }));
+
+    assert.deepEqual(
+      loadManifest(images).map((entry) => [entry.symbol, entry.image]),
+      [['PEPE', join(images, 'pepe.png')]]
+    );
+
+    writeFileSync(join(images, 'wojak.jpg'), 'jpg');
+    assert.throws(() => loadManifest(images), /Missing sidecar for wojak\.jpg/);
+  });
+
+  it('rejects unknown formats and JSON without a token list', () => {
+    writeFileSync(join(dir, 'manifest.txt'), '');
+    assert.throws(() => loadManifest(join(dir, 'manifest.txt')), /Unsupported manifest format/);
+
+    writeFileSync(join(dir, 'manifest.json'), '{"entries": []}');
+    assert.throws(() => loadManifest(dir), /must be an array/);
+  });
+
+  it('reports every invalid field', () => {
+    writeFileSync(
+      join(dir, 'manifest.json'),
+      JSON.stringify([
+        { name: 'Pepe', symbol: 'PEPE', description: 'Frog', image: 'images/pepe.png' },
+        { name: 'x'.repeat(33), symbol: 'pepe', description: 'Again', image: 'images/pepe.png' },
+        { symbol: 'BAD-1', image: 'images/pepe.gif', website: 'example.com', weight: -1 },
+        { name: 'Doge', symbol: 'DOGE', description: 'Dog', image: 'images/doge.txt' },
+      ])
+    );
+
+    assert.deepEqual(validateManifest(loadManifest(dir)), [
+      'Entry 2 (pepe): name is longer than 32 characters',
+      'Entry 2 (pepe): symbol duplicates entry 1',
+      'Entry 3 (BAD-1): name is required',
+      'Entry 3 (BAD-1): symbol must be letters and digits only',
+      'Entry 3 (BAD-1): description is required',
+      `Entry 3 (BAD-1): image not found: ${join(dir, 'images', 'pepe.gif')}`,
+      'Entry 3 (BAD-1): website must be an http(s) URL',
+      'Entry 3 (BAD-1): weight must be a non-negative number',
+      'Entry 4 (DOGE): image must be one of .png, .jpg, .jpeg, .gif, .webp',
+    ]);
+    assert.deepEqual(validateManifest([]), ['Manifest has no entries']);
+  });
+});
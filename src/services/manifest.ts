@@ -0,0 +1,232 @@
+/**
+ * Local token manifest (own token concepts for prepare-metadata --from-dir)
+ *
+ * Accepts a JSON or CSV manifest file, or a folder holding `manifest.json` /
+ * `manifest.csv`, or a folder of images with a JSON sidecar each
+ * (`pepe.png` + `pepe.json`). Image paths are relative to the manifest.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, extname, resolve } from 'path';
+
+/**
+ * One token concept from the manifest
+ */
+export interface ManifestEntry {
+  name: string;
+  symbol: string;
+  description: string;
+  image: string; // Absolute path once loaded
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+  weight?: number;
+}
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_NAME_LENGTH = 32;
+const MAX_SYMBOL_LENGTH = 10;
+
+/**
+ * Load manifest entries from a file or folder
+ */
+export function loadManifest(source: string): ManifestEntry[] {
+  const path = resolve(source);
+  if (!existsSync(path)) {
+    throw new Error(`Manifest source not found: ${path}`);
+  }
+
+  if (statSync(path).isDirectory()) {
+    for (const file of ['manifest.json', 'manifest.csv']) {
+      if (existsSync(resolve(path, file))) {
+        return loadManifest(resolve(path, file));
+      }
+    }
+    return loadSidecars(path);
+  }
+
+  const content = readFileSync(path, 'utf-8');
+  const baseDir = dirname(path);
+  let rows: Record<string, unknown>[];
+
+  switch (extname(path).toLowerCase()) {
+    case '.json': {
+      const data = JSON.parse(content);
+      // Either an array or { tokens: [...] }
+      rows = Array.isArray(data) ? data : data.tokens;
+      if (!Array.isArray(rows)) {
+        throw new Error(`Manifest ${path} must be an array or { "tokens": [...] }`);
+      }
+      break;
+    }
+    case '.csv':
+      rows = parseCsv(content);
+      break;
+    default:
+      throw new Error(`Unsupported manifest format: ${path} (use .json or .csv)`);
+  }
+
+  return rows.map((row) => toEntry(row, baseDir));
+}
+
+/**
+ * Folder of images, each with a same-named JSON sidecar
+ */
+function loadSidecars(dir: string): ManifestEntry[] {
+  const images = readdirSync(dir)
+    .filter((file) => IMAGE_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .sort();
+
+  if (images.length === 0) {
+    throw new Error(`No manifest.json, manifest.csv or images found in ${dir}`);
+  }
+
+  return images.map((image) => {
+    const sidecar = resolve(dir, `${basename(image, extname(image))}.json`);
+    if (!existsSync(sidecar)) {
+      throw new Error(`Missing sidecar for ${image}: expected ${sidecar}`);
+    }
+    const data = JSON.parse(readFileSync(sidecar, 'utf-8')) as Record<string, unknown>;
+    return toEntry({ ...data, image }, dir);
+  });
+}
+
+function toEntry(row: Record<string, unknown>, baseDir: string): ManifestEntry {
+  const text = (key: string): string | undefined => {
+    const value = row[key];
+    if (value === undefined || value === null) return undefined;
+    const trimmed = String(value).trim();
+    return trimmed === '' ? undefined : trimmed;
+  };
+
+  const image = text('image') ?? text('image_path') ?? '';
+  const weight = text('weight');
+
+  return {
+    name: text('name') ?? '',
+    symbol: text('symbol') ?? '',
+    description: text('description') ?? '',
+    image: image ? resolve(baseDir, image) : '',
+    twitter: text('twitter'),
+    telegram: text('telegram'),
+    website: text('website'),
+    weight: weight !== undefined ? Number(weight) : undefined,
+  };
+}
+
+/**
+ * Validate all entries; returns one message per problem (empty when valid)
+ */
+export function validateManifest(entries: ManifestEntry[]): string[] {
+  const errors: string[] = [];
+  const symbols = new Map<string, number>();
+
+  if (entries.length === 0) {
+    errors.push('Manifest has no entries');
+  }
+
+  entries.forEach((entry, i) => {
+    const label = `Entry ${i + 1}${entry.symbol ? ` (${entry.symbol})` : ''}`;
+
+    if (!entry.name) {
+      errors.push(`${label}: name is required`);
+    } else if (entry.name.length > MAX_NAME_LENGTH) {
+      errors.push(`${label}: name is longer than ${MAX_NAME_LENGTH} characters`);
+    }
+
+    if (!entry.symbol) {
+      errors.push(`${label}: symbol is required`);
+    } else if (entry.symbol.length > MAX_SYMBOL_LENGTH) {
+      errors.push(`${label}: symbol is longer than ${MAX_SYMBOL_LENGTH} characters`);
+    } else if (!/^[A-Za-z0-9]+$/.test(entry.symbol)) {
+      errors.push(`${label}: symbol must be letters and digits only`);
+    } else {
+      const previous = symbols.get(entry.symbol.toUpperCase());
+      if (previous !== undefined) {
+        errors.push(`${label}: symbol duplicates entry ${previous}`);
+      } else {
+        symbols.set(entry.symbol.toUpperCase(), i + 1);
+      }
+    }
+
+    if (!entry.description) {
+      errors.push(`${label}: description is required`);
+    }
+
+    if (!entry.image) {
+      errors.push(`${label}: image is required`);
+    } else if (!IMAGE_EXTENSIONS.includes(extname(entry.image).toLowerCase())) {
+      errors.push(`${label}: image must be one of ${IMAGE_EXTENSIONS.join(', ')}`);
+    } else if (!existsSync(entry.image)) {
+      errors.push(`${label}: image not found: ${entry.image}`);
+    } else if (statSync(entry.image).size > MAX_IMAGE_BYTES) {
+      errors.push(`${label}: image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+    }
+
+    for (const key of ['twitter', 'telegram', 'website'] as const) {
+      const url = entry[key];
+      if (url && !/^https?:\/\//.test(url)) {
+        errors.push(`${label}: ${key} must be an http(s) URL`);
+      }
+    }
+
+    if (entry.weight !== undefined && !(entry.weight >= 0)) {
+      errors.push(`${label}: weight must be a non-negative number`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Minimal CSV parser (header row, quoted fields, "" escapes)
+ */
+function parseCsv(content: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const rows = records.filter((r) => r.some((value) => value.trim() !== ''));
+  const [header, ...body] = rows;
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return body.map((values) =>
+    Object.fromEntries(keys.map((key, i) => [key, values[i] ?? '']))
+  );
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { fetchAndPrepareTokens } from './metadata';
+import { createTestBot, type TestBot } from '../testing';
+
+describe('fetchAndPrepareTokens in reuse mode', () => {
+  let bot: TestBot;
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('reuses the on-chain metadata URI of listed tokens without uploading', async () => {
+    bot = await createTestBot({ METADATA_MODE: 'reuse' });
+    const { ctx, chain, api } = bot;
+    const seed = (index: number, uriIndex = index) => {
+      const { name, symbol } = api.sourceTokens[index]!;
+      chain.addToken({ address: api.sourceTokenAddress(index), name, symbol, tokenURI: api.sourceTokenURI(uriIndex) });
+    };
+    seed(0);
+    seed(1, 0); // Its URI serves another token's metadata
+    // Token 2 is listed but not deployed on this chain
+
+    const tokens = await fetchAndPrepareTokens(ctx, 1, 3);
+
+    assert.deepEqual(
+      tokens.map((token) => [token.symbol, token.tokenURI]),
+      [['MOCK1', api.sourceTokenURI(0)]]
+    );
+    assert.equal(tokens[0]!.imageUri, `${api.baseUrl}/images/source-0.png`);
+    assert.ok(api.requests.every((request) => request.method === 'GET'));
+  });
+
+  it('refuses a token list from another network than the metadata API', async () => {
+    bot = await createTestBot({ METADATA_MODE: 'reuse', TOKEN_LIST_API_BASE_URL: 'https://api.example.com' });
+    const { ctx, api } = bot;
+
+    await assert.rejects(fetchAndPrepareTokens(ctx, 1, 3), /same network.*METADATA_MODE=upload/s);
+    assert.equal(api.requests.length, 0);
+  });
+});
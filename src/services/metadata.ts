@@ -2,8 +2,13 @@
  * Metadata fetching and preparation service
  */
 
-import { config } from '../config';
-import { httpGet, httpPost, httpUpload } from './api';
+import { readFileSync } from 'fs';
+import { getAddress } from 'viem';
+import { tokenMetadataAbi } from '../abi';
+import { TIMING } from '../config/constants';
+import type { BotContext } from './context';
+import { classifyError, formatBotError } from './errors';
+import type { ManifestEntry } from './manifest';
 import type {
   TokenListResponse,
   MetadataUploadRequest,
@@ -11,12 +16,6 @@ import type {
   PreparedToken,
 } from '../types';
 
-// Use mainnet API for token list (more tokens available)
-const TOKEN_LIST_API_BASE_URL = config.tokenListApiBaseUrl;
-
-// Use network-specific API for metadata upload
-const METADATA_UPLOAD_API_BASE_URL = config.metadataUploadApiBaseUrl;
-
 /**
  * Image upload response
  */
@@ -29,10 +28,11 @@ interface ImageUploadResponse {
  * Fetch token list from API (always mainnet)
  */
 export function fetchTokenList(
+  ctx: BotContext,
   page: number,
   limit: number
 ): Promise<TokenListResponse> {
-  return httpGet<TokenListResponse>(TOKEN_LIST_API_BASE_URL, '/order/creation_time', {
+  return ctx.tokenListApi.get<TokenListResponse>('/order/creation_time', {
     params: {
       page,
       limit,
@@ -79,7 +79,10 @@ function detectContentType(imageUrl: string): string {
 /**
  * Upload image to API
  */
-export async function uploadImage(imageUrl: string): Promise<ImageUploadResponse> {
+export async function uploadImage(
+  ctx: BotContext,
+  imageUrl: string
+): Promise<ImageUploadResponse> {
   // Download image as buffer
   const imageBuffer = await downloadImage(imageUrl);
 
@@ -87,22 +90,35 @@ export async function uploadImage(imageUrl: string): Promise<ImageUploadResponse
   const contentType = detectContentType(imageUrl);
 
   // Upload as binary with Content-Type header
-  return httpUpload<ImageUploadResponse>(
-    METADATA_UPLOAD_API_BASE_URL,
+  return ctx.metadataApi.upload<ImageUploadResponse>(
     '/metadata/image',
     imageBuffer,
     contentType
   );
 }
 
+/**
+ * Upload a local image file to API
+ */
+export function uploadImageFile(
+  ctx: BotContext,
+  imagePath: string
+): Promise<ImageUploadResponse> {
+  return ctx.metadataApi.upload<ImageUploadResponse>(
+    '/metadata/image',
+    readFileSync(imagePath),
+    detectContentType(imagePath)
+  );
+}
+
 /**
  * Upload metadata and get metadata URI (network-specific)
  */
 export function uploadMetadata(
+  ctx: BotContext,
   metadata: MetadataUploadRequest
 ): Promise<MetadataUploadResponse> {
-  return httpPost<MetadataUploadResponse, MetadataUploadRequest>(
-    METADATA_UPLOAD_API_BASE_URL,
+  return ctx.metadataApi.post<MetadataUploadResponse, MetadataUploadRequest>(
     '/metadata/metadata',
     metadata
   );
@@ -113,11 +129,12 @@ export function uploadMetadata(
  * Downloads image from mainnet and re-uploads to current network
  */
 export async function processTokenToMetadataWithUpload(
+  ctx: BotContext,
   tokenInfo: TokenListResponse['tokens'][0]['token_info']
 ): Promise<PreparedToken> {
   // Step 1: Download and upload image to current network
-  console.log(`  Uploading image for ${tokenInfo.symbol}...`);
-  const imageUploadResult = await uploadImage(tokenInfo.image_uri);
+  ctx.log.info(`  Uploading image for ${tokenInfo.symbol}...`);
+  const imageUploadResult = await uploadImage(ctx, tokenInfo.image_uri);
 
   // Step 2: Create metadata with new image URI
   const uploadRequest: MetadataUploadRequest = {
@@ -131,7 +148,7 @@ export async function processTokenToMetadataWithUpload(
   };
 
   // Step 3: Upload metadata and get metadata URI
-  const uploadResponse = await uploadMetadata(uploadRequest);
+  const uploadResponse = await uploadMetadata(ctx, uploadRequest);
 
   // Return prepared token
   return {
@@ -146,25 +163,101 @@ export async function processTokenToMetadataWithUpload(
   };
 }
 
+/**
+ * Reuse mode only works when the listed tokens live on the network we create on
+ * (their metadata URIs are served by that network's API)
+ */
+export function checkReuseNetwork(ctx: BotContext): void {
+  const listOrigin = new URL(ctx.config.tokenListApiBaseUrl).origin;
+  const uploadOrigin = new URL(ctx.config.metadataUploadApiBaseUrl).origin;
+
+  if (listOrigin !== uploadOrigin) {
+    throw new Error(
+      `Reuse mode needs the token list and metadata APIs on the same network, ` +
+        `but the token list comes from ${listOrigin} and ${ctx.config.networkMode} uses ${uploadOrigin}. ` +
+        `Use METADATA_MODE=upload to re-upload metadata to ${ctx.config.networkMode}.`
+    );
+  }
+}
+
+/**
+ * Fetch a metadata URI and check it returns metadata JSON
+ */
+async function fetchMetadataJson(
+  tokenURI: string
+): Promise<MetadataUploadResponse['metadata']> {
+  if (!/^https?:\/\//.test(tokenURI)) {
+    throw new Error(`Unsupported metadata URI: ${tokenURI}`);
+  }
+
+  const response = await fetch(tokenURI, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(TIMING.METADATA_FETCH_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Metadata URI unreachable: ${response.status} ${response.statusText} (${tokenURI})`);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Metadata URI did not return JSON: ${tokenURI}`);
+  }
+
+  const metadata = data as Partial<MetadataUploadResponse['metadata']> | null;
+  const missing = (['name', 'symbol', 'image_uri'] as const).filter(
+    (key) => typeof metadata?.[key] !== 'string' || metadata[key] === ''
+  );
+  if (missing.length > 0) {
+    throw new Error(`Metadata at ${tokenURI} is missing ${missing.join(', ')}`);
+  }
+
+  return metadata as MetadataUploadResponse['metadata'];
+}
+
 /**
  * Process token list item to prepared token (REUSE mode)
- * Reuses existing metadata URIs without uploading
- * TODO: Implement this when needed
+ * Reads the source token's metadata URI on-chain and reuses it without uploading
  */
 export async function processTokenToMetadataWithReuse(
+  ctx: BotContext,
   tokenInfo: TokenListResponse['tokens'][0]['token_info']
 ): Promise<PreparedToken> {
-  // For now, just use the image_uri as tokenURI
-  // This might need adjustment based on actual requirements
+  const token = getAddress(tokenInfo.token_id);
+
+  // A token list from another network has no such contract here
+  const code = await ctx.publicClient.getCode({ address: token });
+  if (!code || code === '0x') {
+    throw new Error(
+      `${tokenInfo.symbol}: token ${token} does not exist on ${ctx.config.networkMode}, ` +
+        `so its metadata URI cannot be reused here`
+    );
+  }
+
+  const tokenURI = await ctx.publicClient.readContract({
+    address: token,
+    abi: tokenMetadataAbi,
+    functionName: 'tokenURI',
+  });
+  const metadata = await fetchMetadataJson(tokenURI);
+
+  if (metadata.symbol !== tokenInfo.symbol) {
+    throw new Error(
+      `${tokenInfo.symbol}: metadata at ${tokenURI} is for ${metadata.symbol}`
+    );
+  }
+
   return {
-    name: tokenInfo.name,
-    symbol: tokenInfo.symbol,
-    tokenURI: tokenInfo.image_uri, // Reuse image_uri as tokenURI
-    description: tokenInfo.description,
-    imageUri: tokenInfo.image_uri,
-    twitter: tokenInfo.twitter || undefined,
-    telegram: tokenInfo.telegram || undefined,
-    website: tokenInfo.website || undefined,
+    name: metadata.name,
+    symbol: metadata.symbol,
+    tokenURI,
+    description: metadata.description ?? '',
+    imageUri: metadata.image_uri,
+    twitter: metadata.twitter || undefined,
+    telegram: metadata.telegram || undefined,
+    website: metadata.website || undefined,
   };
 }
 
@@ -173,50 +266,111 @@ export async function processTokenToMetadataWithReuse(
  * Uses METADATA_START_PAGE and METADATA_LIMIT_PER_PAGE from config
  */
 export async function fetchAndPrepareTokens(
-  startPage: number = config.metadataStartPage,
-  limit: number = config.metadataLimitPerPage
+  ctx: BotContext,
+  startPage: number = ctx.config.metadataStartPage,
+  limit: number = ctx.config.metadataLimitPerPage
 ): Promise<PreparedToken[]> {
   const preparedTokens: PreparedToken[] = [];
 
-  console.log(`Fetching tokens from page ${startPage} (limit: ${limit})...`);
-  console.log(`Mode: ${config.metadataMode}\n`);
+  ctx.log.info(`Fetching tokens from page ${startPage} (limit: ${limit})...`);
+  ctx.log.info(`Mode: ${ctx.config.metadataMode}\n`);
+
+  if (ctx.config.metadataMode === 'reuse') {
+    checkReuseNetwork(ctx);
+  }
 
   try {
-    const tokenList = await fetchTokenList(startPage, limit);
+    const tokenList = await fetchTokenList(ctx, startPage, limit);
 
-    console.log(`Processing ${tokenList.tokens.length} tokens from page ${startPage}...`);
+    ctx.log.info(`Processing ${tokenList.tokens.length} tokens from page ${startPage}...`);
 
     // Process each token with delay to avoid rate limiting
     for (const token of tokenList.tokens) {
       try {
         // Choose processing method based on mode
         const preparedToken =
-          config.metadataMode === 'upload'
-            ? await processTokenToMetadataWithUpload(token.token_info)
-            : await processTokenToMetadataWithReuse(token.token_info);
+          ctx.config.metadataMode === 'upload'
+            ? await processTokenToMetadataWithUpload(ctx, token.token_info)
+            : await processTokenToMetadataWithReuse(ctx, token.token_info);
 
         preparedTokens.push(preparedToken);
 
-        console.log(
+        ctx.log.info(
           `[${preparedTokens.length}/${tokenList.tokens.length}] Prepared: ${preparedToken.symbol}`
         );
 
         // Small delay to avoid rate limiting
         await delay(500); // Increased delay for image upload
       } catch (error) {
-        console.error(
-          `Failed to process token ${token.token_info.symbol}:`,
-          error
+        ctx.log.error(
+          `Failed to process token ${token.token_info.symbol}: ${formatBotError(classifyError(error))}`,
+          { symbol: token.token_info.symbol }
         );
         // Continue with next token on error
       }
     }
   } catch (error) {
-    console.error(`Failed to fetch page ${startPage}:`, error);
+    ctx.log.error(`Failed to fetch page ${startPage}: ${formatBotError(classifyError(error))}`);
     throw error;
   }
 
-  console.log(`Successfully prepared ${preparedTokens.length} tokens`);
+  ctx.log.info(`Successfully prepared ${preparedTokens.length} tokens`);
+  return preparedTokens;
+}
+
+/**
+ * Upload local manifest entries (already validated) and prepare tokens
+ */
+export async function prepareTokensFromManifest(
+  ctx: BotContext,
+  entries: ManifestEntry[]
+): Promise<PreparedToken[]> {
+  const preparedTokens: PreparedToken[] = [];
+
+  ctx.log.info(`Uploading ${entries.length} local token concepts...\n`);
+
+  for (const entry of entries) {
+    try {
+      ctx.log.info(`  Uploading image for ${entry.symbol}...`);
+      const imageUploadResult = await uploadImageFile(ctx, entry.image);
+
+      const uploadResponse = await uploadMetadata(ctx, {
+        name: entry.name,
+        symbol: entry.symbol,
+        description: entry.description,
+        image_uri: imageUploadResult.image_uri,
+        twitter: entry.twitter,
+        telegram: entry.telegram,
+        website: entry.website,
+      });
+
+      preparedTokens.push({
+        name: entry.name,
+        symbol: entry.symbol,
+        tokenURI: uploadResponse.metadata_uri,
+        description: entry.description,
+        imageUri: imageUploadResult.image_uri,
+        twitter: entry.twitter,
+        telegram: entry.telegram,
+        website: entry.website,
+        weight: entry.weight,
+      });
+
+      ctx.log.info(
+        `[${preparedTokens.length}/${entries.length}] Prepared: ${entry.symbol}`
+      );
+
+      // Small delay to avoid rate limiting
+      await delay(500);
+    } catch (error) {
+      ctx.log.error(`Failed to upload ${entry.symbol}: ${formatBotError(classifyError(error))}`, {
+        symbol: entry.symbol,
+      });
+      // Continue with next entry on error
+    }
+  }
+
+  ctx.log.info(`Successfully prepared ${preparedTokens.length} tokens`);
   return preparedTokens;
 }
 
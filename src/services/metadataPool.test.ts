@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MetadataPool } from './metadataPool';
+import { createRandom } from './random';
+import type { MetadataUsage } from './storage';
+import type { PreparedToken } from '../types';
+
+const token = (symbol: string, weight?: number): PreparedToken => ({
+  name: symbol,
+  symbol,
+  tokenURI: `ipfs://${symbol}`,
+  description: '',
+  imageUri: '',
+  weight,
+});
+
+const usedOnce = (...symbols: string[]): MetadataUsage => ({
+  entries: Object.fromEntries(
+    symbols.map((symbol) => [`ipfs://${symbol}`, { symbol, count: 1, lastUsedAt: 0, tokenAddresses: [] }])
+  ),
+});
+
+const picks = (pool: MetadataPool, count: number) =>
+  Array.from({ length: count }, () => pool.next().symbol);
+
+describe('MetadataPool', () => {
+  const entries = [token('A'), token('B'), token('C')];
+
+  it('round-robin goes through the file in order, then starts over', () => {
+    const pool = new MetadataPool(entries, { entries: {} }, 'round-robin', createRandom('seed'));
+    assert.deepEqual(picks(pool, 5), ['A', 'B', 'C', 'A', 'B']);
+  });
+
+  it('random-without-replacement uses every entry before repeating one', () => {
+    const pool = new MetadataPool(entries, { entries: {} }, 'random-without-replacement', createRandom('seed'));
+    assert.deepEqual(picks(pool, 3).sort(), ['A', 'B', 'C']);
+    assert.deepEqual(picks(pool, 3).sort(), ['A', 'B', 'C']);
+  });
+
+  it('prefers entries launched least in earlier runs', () => {
+    const pool = new MetadataPool(entries, usedOnce('A', 'C'), 'round-robin', createRandom('seed'));
+    assert.equal(pool.unusedCount(), 1);
+    assert.deepEqual(picks(pool, 3), ['B', 'A', 'B']);
+    assert.equal(pool.unusedCount(), 0);
+  });
+
+  it('weighted draws least-used entries by weight and skips zero weights', () => {
+    const weighted = [token('A', 0), token('B', 3), token('C', 1)];
+    const random = createRandom('seed');
+    const first: string[] = [];
+    for (let run = 0; run < 200; run++) {
+      first.push(new MetadataPool(weighted, { entries: {} }, 'weighted', random).next().symbol);
+    }
+
+    const count = (symbol: string) => first.filter((s) => s === symbol).length;
+    assert.equal(count('A'), 0);
+    assert.ok(count('B') > 2 * count('C'), `B ${count('B')} vs C ${count('C')}`);
+
+    // A weight of 0 only comes up once nothing less used is left
+    const pool = new MetadataPool(weighted, usedOnce('B', 'C'), 'weighted', random);
+    assert.equal(pool.next().symbol, 'A');
+  });
+
+  it('refuses an empty pool', () => {
+    assert.throws(() => new MetadataPool([], { entries: {} }, 'round-robin', createRandom('seed')), /empty/);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Metadata pool: picks prepared tokens for the schedule
+ *
+ * Counts come from data/metadata-usage.json (launches in earlier runs) plus
+ * picks already made for the current plan, so an entry is not reused while
+ * less-used entries remain.
+ */
+
+import type { BotConfig } from '../config';
+import type { Random } from './random';
+import type { MetadataUsage } from './storage';
+import type { PreparedToken } from '../types';
+
+export type MetadataSelection = BotConfig['metadataSelection'];
+
+export class MetadataPool {
+  private counts: number[];
+
+  constructor(
+    private readonly entries: PreparedToken[],
+    usage: MetadataUsage,
+    private readonly selection: MetadataSelection,
+    private readonly random: Random
+  ) {
+    if (entries.length === 0) {
+      throw new Error('Metadata pool is empty');
+    }
+    this.counts = entries.map((entry) => usage.entries[entry.tokenURI]?.count ?? 0);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Entries not launched yet and not picked for this plan
+   */
+  unusedCount(): number {
+    return this.counts.filter((count) => count === 0).length;
+  }
+
+  /**
+   * Pick the next entry and count it against this plan
+   */
+  next(): PreparedToken {
+    const index = this.pick();
+    this.counts[index]!++;
+    return this.entries[index]!;
+  }
+
+  private pick(): number {
+    switch (this.selection) {
+      case 'random-without-replacement': {
+        // Random among the least-used entries
+        const candidates = this.leastUsed();
+        return candidates[Math.floor(this.random() * candidates.length)]!;
+      }
+      case 'round-robin':
+        // File order among the least-used entries
+        return this.leastUsed()[0]!;
+      case 'weighted': {
+        // Least-used entries, drawn by their weight (default 1)
+        const candidates = this.leastUsed();
+        const weights = candidates.map((i) => Math.max(0, this.entries[i]!.weight ?? 1));
+        const total = weights.reduce((sum, w) => sum + w, 0);
+        if (total <= 0) {
+          return candidates[0]!;
+        }
+        let target = this.random() * total;
+        for (let i = 0; i < candidates.length; i++) {
+          target -= weights[i]!;
+          if (target < 0) return candidates[i]!;
+        }
+        return candidates[candidates.length - 1]!;
+      }
+    }
+  }
+
+  private leastUsed(): number[] {
+    const min = Math.min(...this.counts);
+    const indices: number[] = [];
+    this.counts.forEach((count, i) => {
+      if (count === min) indices.push(i);
+    });
+    return indices;
+  }
+}
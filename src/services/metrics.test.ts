@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { parseEther } from 'viem';
+import { createTestBot, type TestBot } from '../testing';
+import { startMetricsServer, type MetricsServer } from './metrics';
+import type { TaskRecord, TokenTask } from './storage';
+import { deriveWallet } from './wallet';
+import type { PreparedToken } from '../types';
+
+interface Health {
+  status: string;
+  rpc: { ok: boolean; endpoints: unknown[] };
+  lastSuccess?: unknown;
+}
+
+interface Status {
+  runId: string;
+  control: string;
+  remaining: number;
+  tasks: Array<{ tokenIndex: number; walletIndex: number; phase: string }>;
+}
+
+const token = (symbol: string): PreparedToken => ({
+  name: symbol,
+  symbol,
+  tokenURI: `ipfs://${symbol}`,
+  description: '',
+  imageUri: '',
+});
+
+describe('metrics server', () => {
+  let bot: TestBot;
+  let server: MetricsServer;
+
+  beforeEach(async () => {
+    bot = await createTestBot({ METRICS_PORT: '0' });
+    server = await startMetricsServer(bot.ctx);
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await bot.close();
+  });
+
+  it('serves counters, wallet balances and remaining tasks on /metrics', async () => {
+    const { ctx } = bot;
+    ctx.metrics.tokenCreated(0);
+    ctx.metrics.retry('sell');
+    ctx.metrics.gas(parseEther('0.5'));
+
+    const res = await fetch(`${server.url}/metrics`);
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /^text\/plain/);
+    const body = await res.text();
+    assert.match(body, /^bot_tokens_created_total 1$/m);
+    assert.match(body, /^bot_retries_total\{operation="sell"\} 1$/m);
+    assert.match(body, /^bot_gas_spent_mon_total 0\.5$/m);
+    assert.match(body, /^bot_last_success_timestamp_seconds\{action="create"\} \d+$/m);
+    assert.match(body, /^bot_tasks_remaining 0$/m);
+    const master = deriveWallet(ctx, 0).address;
+    assert.match(body, new RegExp(`^bot_wallet_balance_mon\\{wallet_index="0",address="${master}"\\} 100$`, 'm'));
+  });
+
+  it('reports a live RPC on /health', async () => {
+    const res = await fetch(`${server.url}/health`);
+    assert.equal(res.status, 200);
+    const health = (await res.json()) as Health;
+    assert.equal(health.status, 'ok');
+    assert.equal(health.rpc.ok, true);
+    assert.equal(health.lastSuccess, undefined);
+  });
+
+  it('answers 503 on /health while the RPC is down', async () => {
+    const { chain } = bot;
+    const request = chain.request.bind(chain);
+    chain.request = async (args) => {
+      if (args.method === 'eth_blockNumber') throw new Error('RPC down');
+      return request(args);
+    };
+
+    const res = await fetch(`${server.url}/health`);
+    assert.equal(res.status, 503);
+    const health = (await res.json()) as Health;
+    assert.equal(health.status, 'degraded');
+    assert.equal(health.rpc.ok, false);
+    assert.equal(health.rpc.endpoints.length, 1);
+  });
+
+  it('lists unfinished tasks on /status with the wallet each runs on', async () => {
+    const { ctx } = bot;
+    const now = Date.now();
+    const planned = (tokenIndex: number, walletIndex: number): TokenTask => ({
+      tokenIndex,
+      walletIndex,
+      metadata: token(`T${tokenIndex}`),
+      delayMs: tokenIndex * 1000,
+      scheduledTime: now + tokenIndex * 1000,
+    });
+    const record = (task: TokenTask, walletIndex: number, phase: TaskRecord['phase']): TaskRecord => ({
+      tokenIndex: task.tokenIndex,
+      walletIndex,
+      metadata: task.metadata,
+      phase,
+      updatedAt: now,
+    });
+    const tasks = [planned(0, 0), planned(1, 0), planned(2, 1)];
+    await ctx.storage.updateState((state) => {
+      state.runId = 'run-test';
+      state.schedule = { seed: 'seed', generatedAt: now, tasks };
+      state.tasks = {
+        0: record(tasks[0]!, 2, 'create_sent'), // Reassigned to the second worker
+        2: record(tasks[2]!, 2, 'settled'),
+      };
+    });
+
+    const res = await fetch(`${server.url}/status`);
+    assert.equal(res.status, 200);
+    const status = (await res.json()) as Status;
+    assert.equal(status.runId, 'run-test');
+    assert.equal(status.control, 'running');
+    assert.equal(status.remaining, 2);
+    assert.deepEqual(
+      status.tasks.map((task) => [task.tokenIndex, task.walletIndex, task.phase]),
+      [
+        [0, 2, 'create_sent'],
+        [1, 1, 'scheduled'],
+      ]
+    );
+  });
+
+  it('answers 404 for unknown paths and 405 for other methods', async () => {
+    assert.equal((await fetch(`${server.url}/nope`)).status, 404);
+    assert.equal((await fetch(`${server.url}/metrics`, { method: 'POST' })).status, 405);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Run metrics and the optional monitoring server (METRICS_PORT)
+ *
+ * - /metrics  Prometheus text: tokens created / failed, sells, retries,
+ *             gas spent, wallet balances
+ * - /health   last successful action, RPC liveness and per-endpoint health
+ *             (503 when the RPC is down)
+ * - /status   remaining schedule and run state (running / paused / stopping), JSON
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { formatEther } from 'viem';
+import { TIMING } from '../config/constants';
+import type { BotContext } from './context';
+import { describeError } from './errors';
+import { deriveWallets } from './wallet';
+
+export type RetryOperation = 'create' | 'sell';
+
+/**
+ * Counters for the current process (they start at zero on every run)
+ */
+export class Metrics {
+  tokensCreated = 0;
+  tokensFailed = 0;
+  sellsCompleted = 0;
+  retries: Record<RetryOperation, number> = { create: 0, sell: 0 };
+  gasSpent = 0n;
+  lastSuccess?: { action: string; tokenIndex?: number; at: number };
+
+  tokenCreated(tokenIndex: number): void {
+    this.tokensCreated++;
+    this.succeeded('create', tokenIndex);
+  }
+
+  tokenFailed(): void {
+    this.tokensFailed++;
+  }
+
+  sellCompleted(tokenIndex: number): void {
+    this.sellsCompleted++;
+    this.succeeded('sell', tokenIndex);
+  }
+
+  retry(operation: RetryOperation): void {
+    this.retries[operation]++;
+  }
+
+  /**
+   * Gas cost (wei) of a mined transaction
+   */
+  gas(cost: bigint): void {
+    this.gasSpent += cost;
+  }
+
+  private succeeded(action: string, tokenIndex?: number): void {
+    this.lastSuccess = { action, tokenIndex, at: Date.now() };
+  }
+}
+
+/**
+ * Running monitoring server
+ */
+export interface MetricsServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve /metrics, /health and /status on METRICS_HOST:METRICS_PORT
+ */
+export async function startMetricsServer(ctx: BotContext): Promise<MetricsServer> {
+  const server: Server = createServer((req, res) => {
+    handle(ctx, req, res).catch((error) => {
+      send(res, 500, 'application/json', JSON.stringify({ error: describeError(error) }));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(ctx.config.metricsPort, ctx.config.metricsHost, resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://${ctx.config.metricsHost}:${port}`;
+  ctx.log.info(`📈 Metrics on ${url}/metrics (health: /health, schedule: /status)`);
+
+  return {
+    url,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+async function handle(ctx: BotContext, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method !== 'GET') {
+    send(res, 405, 'application/json', JSON.stringify({ error: 'Method not allowed' }));
+    return;
+  }
+
+  switch (pathname) {
+    case '/metrics':
+      send(res, 200, 'text/plain; version=0.0.4', await renderMetrics(ctx));
+      return;
+    case '/health': {
+      const health = await checkHealth(ctx);
+      send(res, health.status === 'ok' ? 200 : 503, 'application/json', JSON.stringify(health));
+      return;
+    }
+    case '/status':
+      send(res, 200, 'application/json', JSON.stringify(scheduleStatus(ctx)));
+      return;
+    default:
+      send(res, 404, 'application/json', JSON.stringify({ error: 'Not found' }));
+  }
+}
+
+/**
+ * Prometheus text exposition
+ */
+async function renderMetrics(ctx: BotContext): Promise<string> {
+  const { metrics } = ctx;
+  const lines: string[] = [];
+  const metric = (
+    name: string,
+    type: 'counter' | 'gauge',
+    help: string,
+    samples: Array<[labels: Record<string, string | number>, value: number | string]>
+  ) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) {
+      const pairs = Object.entries(labels).map(([key, v]) => `${key}="${v}"`);
+      lines.push(`${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`);
+    }
+  };
+
+  metric('bot_tokens_created_total', 'counter', 'Tokens created', [[{}, metrics.tokensCreated]]);
+  metric('bot_tokens_failed_total', 'counter', 'Token tasks that failed', [[{}, metrics.tokensFailed]]);
+  metric('bot_sells_total', 'counter', 'Sells completed', [[{}, metrics.sellsCompleted]]);
+  metric(
+    'bot_retries_total',
+    'counter',
+    'Retried attempts',
+    Object.entries(metrics.retries).map(([operation, count]) => [{ operation }, count])
+  );
+  metric('bot_gas_spent_mon_total', 'counter', 'Gas spent by mined transactions (MON)', [
+    [{}, formatEther(metrics.gasSpent)],
+  ]);
+  if (metrics.lastSuccess) {
+    metric('bot_last_success_timestamp_seconds', 'gauge', 'Time of the last successful action', [
+      [{ action: metrics.lastSuccess.action }, Math.floor(metrics.lastSuccess.at / 1000)],
+    ]);
+  }
+
+  const status = scheduleStatus(ctx);
+  metric('bot_tasks_remaining', 'gauge', 'Scheduled tasks not settled or failed', [
+    [{}, status.remaining],
+  ]);
+
+  // Index 0 is the master wallet; balances the RPC cannot serve are left out
+  const wallets = deriveWallets(ctx, ctx.config.numWallets + 1);
+  const balances = await Promise.all(
+    wallets.map((wallet) =>
+      withTimeout(ctx.publicClient.getBalance({ address: wallet.address })).catch(() => undefined)
+    )
+  );
+  metric(
+    'bot_wallet_balance_mon',
+    'gauge',
+    'Native balance per wallet (index 0 = master)',
+    wallets.flatMap((wallet, i): Array<[Record<string, string | number>, string]> => {
+      const balance = balances[i];
+      if (balance === undefined) return [];
+      return [[{ wallet_index: wallet.index, address: wallet.address }, formatEther(balance)]];
+    })
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+async function checkHealth(ctx: BotContext) {
+  const { lastSuccess } = ctx.metrics;
+  const started = Date.now();
+  let rpc: { ok: boolean; blockNumber?: string; latencyMs: number; error?: string };
+  try {
+    const blockNumber = await withTimeout(ctx.publicClient.getBlockNumber());
+    rpc = { ok: true, blockNumber: blockNumber.toString(), latencyMs: Date.now() - started };
+  } catch (error) {
+    rpc = { ok: false, latencyMs: Date.now() - started, error: describeError(error) };
+  }
+
+  return {
+    status: rpc.ok ? 'ok' : 'degraded',
+    rpc: { ...rpc, endpoints: ctx.rpc.health() },
+    lastSuccess: lastSuccess && {
+      ...lastSuccess,
+      at: new Date(lastSuccess.at).toISOString(),
+      secondsAgo: Math.round((Date.now() - lastSuccess.at) / 1000),
+    },
+  };
+}
+
+/**
+ * Tasks of the persisted schedule that are not settled or failed yet
+ */
+function scheduleStatus(ctx: BotContext) {
+  const state = ctx.storage.loadState();
+  const tasks = (state.schedule?.tasks ?? [])
+    .map((task) => {
+      const record = state.tasks[task.tokenIndex];
+      // A started task records the wallet it actually runs on (derivation index)
+      return { task, phase: record?.phase ?? 'scheduled', walletIndex: record?.walletIndex ?? task.walletIndex + 1 };
+    })
+    .filter(({ phase }) => phase !== 'settled' && phase !== 'failed')
+    .sort((a, b) => a.task.scheduledTime - b.task.scheduledTime);
+
+  return {
+    runId: state.runId,
+    control: ctx.control.state,
+    tokensCreated: state.tokensCreated,
+    totalTokens: ctx.config.totalTokensToCreate,
+    remaining: tasks.length,
+    tasks: tasks.map(({ task, phase, walletIndex }) => ({
+      tokenIndex: task.tokenIndex,
+      symbol: task.metadata.symbol,
+      walletIndex,
+      scheduledTime: new Date(task.scheduledTime).toISOString(),
+      phase,
+    })),
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('RPC did not answer in time')), TIMING.HEALTH_RPC_TIMEOUT).unref()
+    ),
+  ]);
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string): void {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(body);
+}
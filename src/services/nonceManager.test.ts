@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { parseEther } from 'viem';
+import { createTestBot, withTiming, type TestBot } from '../testing';
+import { KnownError } from './errors';
+import { deriveWallet } from './wallet';
+
+describe('NonceManager', () => {
+  let bot: TestBot;
+
+  beforeEach(async () => {
+    bot = await createTestBot();
+  });
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('gives concurrent sends consecutive nonces', async () => {
+    const { ctx, chain } = bot;
+    chain.automine = false;
+    const from = deriveWallet(ctx, 1);
+    const to = deriveWallet(ctx, 2).address;
+
+    const hashes = await Promise.all(
+      [1, 2, 3].map(() => from.nonces.send({ to, value: parseEther('1') }, { internal: true }))
+    );
+    assert.equal(from.nonces.pendingCount, 3);
+
+    await chain.mine();
+    for (const hash of hashes) {
+      assert.equal((await from.nonces.waitForReceipt(hash)).status, 'success');
+    }
+    const sent = await Promise.all(hashes.map((hash) => ctx.publicClient.getTransaction({ hash })));
+    assert.deepEqual(sent.map((tx) => tx.nonce), [0, 1, 2]);
+    assert.equal(from.nonces.pendingCount, 0);
+    assert.equal(chain.getBalance(to), parseEther('103'));
+  });
+
+  it('resyncs from the node after a nonce used elsewhere', async () => {
+    const { ctx } = bot;
+    const from = deriveWallet(ctx, 1);
+    const to = deriveWallet(ctx, 2).address;
+    await from.nonces.waitForReceipt(await from.nonces.send({ to, value: 1n }, { internal: true }));
+
+    // Nonce 1 taken by a transaction the manager did not send
+    await from.walletClient.sendTransaction({ account: from.account, chain: ctx.chain, to, value: 1n, nonce: 1 });
+
+    await assert.rejects(from.nonces.send({ to, value: 1n }, { internal: true }), /nonce too low/);
+    const hash = await from.nonces.send({ to, value: 1n }, { internal: true });
+    assert.equal((await ctx.publicClient.getTransaction({ hash })).nonce, 2);
+  });
+
+  it('gives up on a transaction stuck after every rebroadcast and frees its nonce', async () => {
+    const { ctx, chain } = bot;
+    chain.automine = false;
+    const from = deriveWallet(ctx, 1);
+    const to = deriveWallet(ctx, 2).address;
+
+    const stuck = await from.nonces.send({ to, value: 1n }, { internal: true });
+    await withTiming({ STUCK_TX_TIMEOUT: 20, RECEIPT_POLL_INTERVAL: 5 }, () =>
+      assert.rejects(
+        from.nonces.waitForReceipt(stuck),
+        (error) => error instanceof KnownError && error.kind === 'stuck'
+      )
+    );
+    assert.equal(from.nonces.pendingCount, 0);
+
+    // The node evicts it: the next send takes its nonce instead of queueing behind it
+    chain.dropPending();
+    const hash = await from.nonces.send({ to, value: 1n }, { internal: true });
+    await chain.mine();
+    assert.equal((await from.nonces.waitForReceipt(hash)).status, 'success');
+    assert.equal((await ctx.publicClient.getTransaction({ hash })).nonce, 0);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Per-wallet nonce manager
+ *
+ * Nonces are handed out locally (synced from the node's pending count once),
+ * so one wallet can have several transactions in flight. Every sent
+ * transaction is tracked until it mines; one that stays pending too long is
+ * re-signed with the same nonce and bumped fees.
+ */
+
+import {
+  type Abi,
+  type Account,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type EncodeFunctionDataParameters,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+  encodeFunctionData,
+  formatGwei,
+  getContractError,
+  BaseError,
+} from 'viem';
+import { TIMING, TX_DEFAULTS } from '../config/constants';
+import { KnownError } from './errors';
+import type { FeeQuote, FeeStrategy } from './fees';
+import type { RunLimits } from './limits';
+import type { Logger } from './logger';
+
+/**
+ * What a caller sends (nonce, gas and fees are filled in here)
+ */
+export interface TransactionRequest {
+  to: Address;
+  data?: Hex;
+  value?: bigint;
+}
+
+export interface SendOptions {
+  /** Name used in fee / gas log lines */
+  label?: string;
+  /** Fees already picked by the caller (skips the fee strategy) */
+  fees?: FeeQuote;
+  /** Transfer between the bot's own wallets (only its gas counts as spend) */
+  internal?: boolean;
+  /** Approve / sell: not held back by the spend caps or a draining run */
+  unwind?: boolean;
+}
+
+/**
+ * writeContract-style request, encoded to calldata before sending
+ */
+export interface ContractWriteRequest<
+  abi extends Abi,
+  functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+> {
+  address: Address;
+  abi: abi;
+  functionName: functionName;
+  args: ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>;
+  value?: bigint;
+}
+
+interface PendingTransaction {
+  nonce: number;
+  request: TransactionRequest;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** Every broadcast of this nonce, oldest first */
+  hashes: Hash[];
+  internal: boolean;
+  /** Approve / sell: exempt from the spend and gas price caps */
+  unwind: boolean;
+  /** Spend counted by the run limits until the receipt is known */
+  counted: bigint;
+}
+
+export class NonceManager {
+  private nextNonce?: number;
+  private pending = new Map<number, PendingTransaction>();
+  // Sends run one at a time so nonces are assigned in order without gaps
+  private sendChain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly account: Account,
+    private readonly publicClient: PublicClient,
+    private readonly walletClient: WalletClient,
+    private readonly fees: FeeStrategy,
+    private readonly limits: RunLimits,
+    private readonly log: Logger
+  ) {}
+
+  /**
+   * Transactions sent and not mined yet
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Estimate, sign and broadcast with the next local nonce
+   * (fees and gas limit come from the fee strategy)
+   */
+  send(request: TransactionRequest, options: SendOptions = {}): Promise<Hash> {
+    const result = this.sendChain.then(() => this.sendNext(request, options));
+    this.sendChain = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Encode a contract call and send it (reverts are decoded against the ABI)
+   */
+  async writeContract<
+    const abi extends Abi,
+    functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+  >(request: ContractWriteRequest<abi, functionName>, options: SendOptions = {}): Promise<Hash> {
+    const { address, abi, functionName, args, value } = request;
+    const data = encodeFunctionData<abi, functionName>({
+      abi,
+      functionName,
+      args,
+    } as EncodeFunctionDataParameters<abi, functionName>);
+    try {
+      return await this.send({ to: address, data, value }, { label: functionName, ...options });
+    } catch (error) {
+      // Refused before sending (limits, fee cap, gas limit): nothing to decode
+      if (error instanceof KnownError) throw error;
+      throw getContractError(error as BaseError, {
+        abi,
+        address,
+        args,
+        functionName,
+        sender: this.account.address,
+      });
+    }
+  }
+
+  /**
+   * Wait until the transaction (or a rebroadcast of it) mines
+   * Rebroadcasts with bumped fees when it stays pending past STUCK_TX_TIMEOUT;
+   * `onReplaced` gets each new hash so callers can persist it.
+   */
+  async waitForReceipt(
+    hash: Hash,
+    onReplaced?: (hash: Hash) => Promise<void>
+  ): Promise<TransactionReceipt> {
+    const tx = [...this.pending.values()].find((p) => p.hashes.includes(hash));
+    if (!tx) {
+      // Not sent through this manager (e.g. before a restart)
+      return this.publicClient.waitForTransactionReceipt({ hash });
+    }
+
+    let stuckAt = Date.now() + TIMING.STUCK_TX_TIMEOUT;
+    for (let bumps = 0; ; ) {
+      const receipt = await this.findMined(tx);
+      if (receipt) {
+        this.mined(tx, receipt);
+        return receipt;
+      }
+
+      if (Date.now() >= stuckAt) {
+        const mined = await this.publicClient.getTransactionCount({
+          address: this.account.address,
+          blockTag: 'latest',
+        });
+        if (mined > tx.nonce) {
+          // Nonce consumed: one of ours, unless something else replaced it
+          const late = await this.findMined(tx);
+          if (late) {
+            this.mined(tx, late);
+            return late;
+          }
+          this.pending.delete(tx.nonce);
+          throw new KnownError(
+            'nonce',
+            `Nonce ${tx.nonce} of ${this.account.address} was used by another transaction (${hash})`
+          );
+        }
+
+        if (bumps >= TX_DEFAULTS.MAX_REBROADCASTS) {
+          // Given up on: later sends take their nonce from the node again
+          // (the same one, if the node has dropped this transaction)
+          this.pending.delete(tx.nonce);
+          this.resync();
+          throw new KnownError(
+            'stuck',
+            `Transaction stuck: nonce ${tx.nonce} not mined after ${bumps} rebroadcast attempts (${hash})`
+          );
+        }
+        bumps++;
+        const replacement = await this.rebroadcast(tx);
+        if (replacement) await onReplaced?.(replacement);
+        stuckAt = Date.now() + TIMING.STUCK_TX_TIMEOUT;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, TIMING.RECEIPT_POLL_INTERVAL));
+    }
+  }
+
+  private async sendNext(request: TransactionRequest, options: SendOptions): Promise<Hash> {
+    const label = options.label ?? (request.data ? 'contract call' : 'transfer');
+    // May wait (capped strategy) before a nonce is taken
+    const fees = options.fees ?? (await this.fees.fees(label));
+
+    if (this.nextNonce === undefined) {
+      this.nextNonce = await this.publicClient.getTransactionCount({
+        address: this.account.address,
+        blockTag: 'pending',
+      });
+    }
+    const nonce = this.nextNonce;
+
+    const estimate = await this.publicClient.estimateGas({ account: this.account, ...request });
+    const gas = this.fees.gasLimit(estimate, label);
+
+    // Refused (and the run drained) when a safety cap would be exceeded
+    const counted = this.limits.authorize(this.account.address, {
+      label,
+      value: request.value ?? 0n,
+      gas,
+      maxFeePerGas: fees.maxFeePerGas,
+      internal: options.internal,
+      unwind: options.unwind,
+    });
+
+    const tx: PendingTransaction = {
+      nonce,
+      request,
+      gas,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      hashes: [],
+      internal: options.internal ?? false,
+      unwind: options.unwind ?? false,
+      counted,
+    };
+
+    try {
+      await this.broadcast(tx);
+    } catch (error) {
+      this.limits.settle(this.account.address, counted, 0n);
+      // The node may know a nonce we do not (e.g. a transaction sent elsewhere)
+      if (isNonceError(error)) this.nextNonce = undefined;
+      throw error;
+    }
+
+    this.nextNonce = nonce + 1;
+    this.pending.set(nonce, tx);
+    return tx.hashes[tx.hashes.length - 1]!;
+  }
+
+  /**
+   * Take the next nonce from the node's pending count (after sends already queued)
+   */
+  private resync(): void {
+    this.sendChain = this.sendChain.then(() => {
+      this.nextNonce = undefined;
+    });
+  }
+
+  /**
+   * Re-sign a pending transaction with bumped fees
+   * (null when the fee cap leaves no room for a replacement)
+   */
+  private async rebroadcast(tx: PendingTransaction): Promise<Hash | null> {
+    const fees = await this.fees.bump(tx);
+    if (!fees) return null;
+    if (!tx.unwind && !this.limits.gasPriceAllowed(fees.maxFeePerGas)) {
+      this.log.warn(
+        `  ⛽ Rebroadcast skipped: ${formatGwei(fees.maxFeePerGas)} gwei is above MAX_GAS_PRICE`
+      );
+      return null;
+    }
+
+    tx.maxFeePerGas = fees.maxFeePerGas;
+    tx.maxPriorityFeePerGas = fees.maxPriorityFeePerGas;
+    const counted = tx.gas * tx.maxFeePerGas + (tx.internal ? 0n : tx.request.value ?? 0n);
+    this.limits.settle(this.account.address, tx.counted, counted);
+    tx.counted = counted;
+
+    const hash = await this.broadcast(tx);
+    this.log.warn(
+      `  ⚠️  Nonce ${tx.nonce} stuck, rebroadcast with max fee ` +
+        `${formatGwei(tx.maxFeePerGas)} gwei: ${hash}`,
+      { txHash: hash }
+    );
+    return hash;
+  }
+
+  private async broadcast(tx: PendingTransaction): Promise<Hash> {
+    const hash = await this.walletClient.sendTransaction({
+      account: this.account,
+      chain: this.walletClient.chain,
+      ...tx.request,
+      nonce: tx.nonce,
+      gas: tx.gas,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    });
+    tx.hashes.push(hash);
+    return hash;
+  }
+
+  /**
+   * Stop tracking a mined transaction; its actual cost replaces the counted one
+   */
+  private mined(tx: PendingTransaction, receipt: TransactionReceipt): void {
+    this.pending.delete(tx.nonce);
+    const value = receipt.status === 'success' && !tx.internal ? tx.request.value ?? 0n : 0n;
+    this.limits.settle(this.account.address, tx.counted, receipt.gasUsed * receipt.effectiveGasPrice + value);
+  }
+
+  private async findMined(tx: PendingTransaction): Promise<TransactionReceipt | null> {
+    for (const hash of tx.hashes) {
+      try {
+        return await this.publicClient.getTransactionReceipt({ hash });
+      } catch {
+        // Not mined (or dropped)
+      }
+    }
+    return null;
+  }
+}
+
+function isNonceError(error: unknown): boolean {
+  const message = error instanceof BaseError ? error.details ?? error.message : String(error);
+  return /nonce/i.test(message);
+}
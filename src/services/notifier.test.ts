@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { MockWebhookReceiver, createTestBot, type TestBot } from '../testing';
+import type { QueuedEvent } from './notifier';
+
+describe('Notifier', () => {
+  const receiver = new MockWebhookReceiver();
+  let bot: TestBot;
+
+  beforeEach(async () => {
+    const base = await receiver.start();
+    bot = await createTestBot({
+      NOTIFY_WEBHOOK_URL: `${base}/hook`,
+      NOTIFY_SLACK_WEBHOOK_URL: `${base}/slack`,
+      NOTIFY_INTERVAL_MS: '60000',
+    });
+  });
+
+  afterEach(async () => {
+    await bot.close();
+    await receiver.stop();
+    receiver.requests.length = 0;
+    receiver.failures.clear();
+  });
+
+  it('batches queued events into one message per sink', async () => {
+    const { notifier } = bot.ctx;
+    notifier.notify({ type: 'run-started', runId: 'run-1', tokens: 2, wallets: 2, durationHours: 1 });
+    notifier.notify({ type: 'token-created', tokenIndex: 0, symbol: 'MOCK1', tokenAddress: '0x01' });
+    await notifier.close();
+
+    const [hook] = receiver.received('/hook');
+    const body = hook!.body as { network: string; events: QueuedEvent[] };
+    assert.equal(body.network, 'mainnet');
+    assert.deepEqual(body.events.map((event) => event.type), ['run-started', 'token-created']);
+
+    const [slack] = receiver.received('/slack');
+    assert.match((slack!.body as { text: string }).text, /MOCK1/);
+  });
+
+  it('keeps delivering to the other sinks when one fails', async () => {
+    receiver.failures.set('/slack', 500);
+    const { notifier } = bot.ctx;
+    notifier.notify({ type: 'token-created', tokenIndex: 0, symbol: 'MOCK1', tokenAddress: '0x01' });
+    await notifier.close();
+
+    assert.equal(receiver.received('/hook').length, 1);
+    assert.equal(receiver.received('/slack').length, 0);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Run notifications (webhook / Slack / Telegram)
+ *
+ * Events are queued and sent in batches: at most one message per sink every
+ * NOTIFY_INTERVAL_MS, with whatever accumulated in between. A failing sink is
+ * logged and skipped; notifications never fail the bot.
+ */
+
+import type { BotConfig } from '../config';
+import { HttpError } from './api';
+import { describeError } from './errors';
+import type { Logger } from './logger';
+
+export type NotificationEvent =
+  | { type: 'run-started'; runId: string; tokens: number; wallets: number; durationHours: number }
+  | { type: 'run-completed'; runId: string; tokensCreated: number; settled: number; failed: number; aborted: boolean }
+  | { type: 'token-created'; tokenIndex: number; symbol: string; tokenAddress: string; txHash?: string }
+  | { type: 'sell-failed'; tokenIndex: number; symbol: string; tokenAddress: string; error: string }
+  | { type: 'low-balance'; walletIndex: number; address: string; balance: string; threshold: string };
+
+export type QueuedEvent = NotificationEvent & { at: string };
+
+/**
+ * Where a batch of events is delivered
+ */
+export interface NotificationSink {
+  name: string;
+  send(events: QueuedEvent[], network: string): Promise<void>;
+}
+
+// Events per message (the rest wait for the next send)
+const MAX_BATCH = 20;
+
+export class Notifier {
+  private queue: QueuedEvent[] = [];
+  private timer?: NodeJS.Timeout;
+  private lastSent = 0;
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly sinks: NotificationSink[],
+    private readonly config: BotConfig,
+    private readonly log: Logger
+  ) {}
+
+  get enabled(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  /**
+   * Queue an event (sent with the next batch)
+   */
+  notify(event: NotificationEvent): void {
+    if (!this.enabled) return;
+    this.queue.push({ ...event, at: new Date().toISOString() });
+    this.schedule();
+  }
+
+  /**
+   * Send everything still queued, ignoring the rate limit (end of run)
+   */
+  async close(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.sending;
+    while (this.queue.length > 0) await this.flush();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) return;
+    const wait = Math.max(0, this.lastSent + this.config.notifyIntervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.sending = this.flush().then(() => this.schedule());
+    }, wait);
+    // Pending notifications never keep the process alive (close() sends them)
+    this.timer.unref();
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.queue.splice(0, MAX_BATCH);
+    if (batch.length === 0) return;
+    this.lastSent = Date.now();
+
+    const results = await Promise.allSettled(
+      this.sinks.map((sink) => sink.send(batch, this.config.networkMode))
+    );
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        this.log.warn(
+          `  ⚠️  Notification via ${this.sinks[i]!.name} failed: ${describeError(result.reason)}`
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Notifier with a sink per configured endpoint (none: notifications are off)
+ */
+export function createNotifier(config: BotConfig, log: Logger): Notifier {
+  const sinks: NotificationSink[] = [];
+
+  if (config.notifyWebhookUrl) {
+    const url = config.notifyWebhookUrl;
+    sinks.push({
+      name: 'webhook',
+      send: (events, network) => postJson(url, { network, events }),
+    });
+  }
+
+  if (config.notifySlackWebhookUrl) {
+    const url = config.notifySlackWebhookUrl;
+    sinks.push({
+      name: 'slack',
+      send: (events, network) => postJson(url, { text: formatBatch(events, network) }),
+    });
+  }
+
+  if (config.notifyTelegramBotToken && config.notifyTelegramChatId) {
+    const url = `${config.notifyTelegramApiUrl}/bot${config.notifyTelegramBotToken}/sendMessage`;
+    const chatId = config.notifyTelegramChatId;
+    sinks.push({
+      name: 'telegram',
+      send: (events, network) =>
+        postJson(url, {
+          chat_id: chatId,
+          text: formatBatch(events, network),
+          disable_web_page_preview: true,
+        }),
+    });
+  }
+
+  return new Notifier(sinks, config, log);
+}
+
+/**
+ * One line per event
+ */
+export function formatEvent(event: NotificationEvent): string {
+  switch (event.type) {
+    case 'run-started':
+      return (
+        `🚀 Run ${event.runId} started: ` +
+        `${event.tokens} token(s) over ${event.durationHours}h on ${event.wallets} wallet(s)`
+      );
+    case 'run-completed':
+      return (
+        `${event.aborted ? '🛑' : '🏁'} Run ${event.runId} ${event.aborted ? 'aborted' : 'completed'}: ` +
+        `${event.tokensCreated} created, ${event.settled} settled, ${event.failed} failed`
+      );
+    case 'token-created':
+      return (
+        `✅ Token ${event.tokenIndex + 1} ${event.symbol} created: ${event.tokenAddress}` +
+        (event.txHash ? ` (tx ${event.txHash})` : '')
+      );
+    case 'sell-failed':
+      return `❌ Sell of token ${event.tokenIndex + 1} ${event.symbol} (${event.tokenAddress}) gave up: ${event.error}`;
+    case 'low-balance':
+      return (
+        `⚠️ Wallet [${event.walletIndex}] ${event.address} is low: ` +
+        `${event.balance} MON (threshold ${event.threshold} MON)`
+      );
+  }
+}
+
+function formatBatch(events: QueuedEvent[], network: string): string {
+  return [`[token-create-bot ${network}]`, ...events.map(formatEvent)].join('\n');
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new HttpError(
+      `HTTP POST failed: ${response.status} ${response.statusText}`,
+      response.status
+    );
+  }
+}
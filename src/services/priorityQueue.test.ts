@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PriorityQueue } from './priorityQueue';
+
+describe('PriorityQueue', () => {
+  it('pops items smallest first', () => {
+    const queue = new PriorityQueue<number>((a, b) => a - b);
+    [5, 1, 4, 1, 3, 9, 2, 6].forEach((n) => queue.push(n));
+
+    const popped: number[] = [];
+    while (queue.size > 0) popped.push(queue.pop()!);
+    assert.deepEqual(popped, [1, 1, 2, 3, 4, 5, 6, 9]);
+    assert.equal(queue.pop(), undefined);
+  });
+
+  it('peeks without removing, including after pushes between pops', () => {
+    const queue = new PriorityQueue<{ at: number; index: number }>((a, b) => a.at - b.at || a.index - b.index);
+    queue.push({ at: 20, index: 0 });
+    queue.push({ at: 10, index: 2 });
+    queue.push({ at: 10, index: 1 });
+
+    assert.deepEqual(queue.peek(), { at: 10, index: 1 });
+    assert.equal(queue.size, 3);
+    queue.pop();
+    queue.push({ at: 5, index: 3 });
+    assert.deepEqual([queue.pop(), queue.pop(), queue.pop()].map((item) => item!.index), [3, 2, 0]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Seedable PRNG for reproducible schedules
+ */
+
+import { randomBytes } from 'crypto';
+
+/**
+ * Random source returning floats in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * Hash a seed string to a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source (mulberry32) from a seed string
+ */
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh seed (used when SCHEDULE_SEED is not set)
+ */
+export function randomSeed(): string {
+  return randomBytes(8).toString('hex');
+}
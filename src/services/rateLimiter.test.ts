@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RateLimiter } from './rateLimiter';
+
+// Milliseconds after `start` at which each take() resolved
+async function takeTimes(limiter: RateLimiter, calls: number): Promise<number[]> {
+  const start = Date.now();
+  return Promise.all(
+    Array.from({ length: calls }, () => limiter.take().then(() => Date.now() - start))
+  );
+}
+
+describe('RateLimiter', () => {
+  it('lets a burst of perSecond calls through, then paces the rest', async () => {
+    const times = await takeTimes(new RateLimiter(4), 6);
+    assert.ok(times.slice(0, 4).every((t) => t < 50), `burst: ${times}`);
+    assert.ok(times[4]! >= 200 && times[4]! < 400, `fifth: ${times}`);
+    assert.ok(times[5]! >= 450 && times[5]! < 650, `sixth: ${times}`);
+  });
+
+  it('paces rates below one call per second', async () => {
+    const times = await takeTimes(new RateLimiter(0.5), 2);
+    assert.ok(times[0]! < 50, `first: ${times}`);
+    assert.ok(times[1]! >= 1900 && times[1]! < 2300, `second: ${times}`);
+  });
+
+  it('does not limit a rate of 0', async () => {
+    const times = await takeTimes(new RateLimiter(0), 100);
+    assert.ok(times.every((t) => t < 50));
+  });
+});
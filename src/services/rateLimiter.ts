@@ -0,0 +1,86 @@
+/**
+ * Token-bucket rate limiter shared by every caller of one endpoint
+ * (RPC_RATE_LIMIT for the node, API_RATE_LIMIT for the NAD APIs)
+ *
+ * Up to `perSecond` calls go through at once; after that, calls wait their
+ * turn in order as the bucket refills.
+ */
+
+import type { Transport } from 'viem';
+
+export class RateLimiter {
+  private tokens: number;
+  // At least one token, so rates below 1/s still let calls through
+  private readonly capacity: number;
+  private updatedAt = Date.now();
+  private waiters: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param perSecond calls per second (0: unlimited)
+   */
+  constructor(private readonly perSecond: number) {
+    this.capacity = Math.max(1, perSecond);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Resolves when the call may go out
+   */
+  take(): Promise<void> {
+    if (this.perSecond <= 0) return Promise.resolve();
+    this.refill();
+    if (this.waiters.length === 0 && this.tokens >= 1) {
+      this.tokens--;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Run fn once the limiter lets it through
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.take();
+    return fn();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.perSecond);
+    this.updatedAt = now;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const wait = Math.ceil(((1 - this.tokens) / this.perSecond) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.refill();
+      while (this.waiters.length > 0 && this.tokens >= 1) {
+        this.tokens--;
+        this.waiters.shift()!();
+      }
+      if (this.waiters.length > 0) this.schedule();
+    }, Math.max(0, wait));
+  }
+}
+
+/**
+ * Transport whose requests go through the limiter
+ */
+export function rateLimitedTransport(transport: Transport, limiter: RateLimiter): Transport {
+  return (params) => {
+    const inner = transport(params);
+    return {
+      ...inner,
+      request: (async (args: Parameters<typeof inner.request>[0]) => {
+        await limiter.take();
+        return inner.request(args);
+      }) as typeof inner.request,
+    };
+  };
+}
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  HttpRequestError,
+  RpcRequestError,
+  TimeoutError,
+  createPublicClient,
+  custom,
+  keccak256,
+  type Address,
+} from 'viem';
+import winston from 'winston';
+import { RpcPool, type RpcEndpoint } from './rpcPool';
+
+const log = winston.createLogger({ silent: true });
+const RAW = '0x02f86b8201';
+const ADDRESS: Address = '0x1000000000000000000000000000000000000001';
+
+interface FakeEndpoint extends RpcEndpoint {
+  calls: string[];
+}
+
+function endpoint(url: string, handler: (method: string) => unknown): FakeEndpoint {
+  const calls: string[] = [];
+  const transport = custom({
+    async request({ method }: { method: string }) {
+      calls.push(method);
+      return handler(method);
+    },
+  });
+  return { url, transport, calls };
+}
+
+function rpcError(url: string, code: number, message: string) {
+  return new RpcRequestError({ body: {}, url, error: { code, message } });
+}
+
+function client(pool: RpcPool) {
+  return createPublicClient({ transport: pool.transport });
+}
+
+describe('RpcPool', () => {
+  it('fails over on HTTP errors and ranks the failed endpoint last', async () => {
+    const a = endpoint('http://a', () => {
+      throw new HttpRequestError({ url: 'http://a', status: 502 });
+    });
+    const b = endpoint('http://b', () => '0x10');
+    const pool = new RpcPool([a, b], 1, log);
+
+    assert.equal(await client(pool).getBlockNumber({ cacheTime: 0 }), 16n);
+    assert.deepEqual(
+      pool.health().map((h) => [h.endpoint, h.coolingDown]),
+      [['b', false], ['a', true]]
+    );
+
+    await client(pool).getBlockNumber({ cacheTime: 0 });
+    assert.equal(a.calls.length, 1);
+    assert.equal(b.calls.length, 2);
+  });
+
+  it('returns chain answers such as reverts without failing over', async () => {
+    const a = endpoint('http://a', () => {
+      throw rpcError('http://a', 3, 'execution reverted');
+    });
+    const b = endpoint('http://b', () => '0x');
+    const pool = new RpcPool([a, b], 1, log);
+
+    await assert.rejects(client(pool).call({ to: ADDRESS, data: '0x' }), /execution reverted/);
+    assert.equal(b.calls.length, 0);
+  });
+
+  it('fails over when a node does not have the block yet', async () => {
+    const a = endpoint('http://a', () => {
+      throw rpcError('http://a', -32000, 'header not found');
+    });
+    const b = endpoint('http://b', () => '0x5');
+    const pool = new RpcPool([a, b], 1, log);
+
+    assert.equal(await client(pool).getBalance({ address: ADDRESS, blockNumber: 1n }), 5n);
+  });
+
+  it('needs RPC_QUORUM matching answers for state reads', async () => {
+    const a = endpoint('http://a', () => '0x1');
+    const b = endpoint('http://b', () => '0x2');
+    const c = endpoint('http://c', () => '0x2');
+    const pool = new RpcPool([a, b, c], 2, log);
+
+    assert.equal(await client(pool).getBalance({ address: ADDRESS }), 2n);
+    assert.deepEqual([a, b, c].map((e) => e.calls.length), [1, 1, 1]);
+
+    const split = new RpcPool([a, b], 2, log);
+    await assert.rejects(client(split).getBalance({ address: ADDRESS }), /RPC quorum not reached/);
+  });
+
+  it('does not resend a raw transaction after a timeout', async () => {
+    const a = endpoint('http://a', () => {
+      throw new TimeoutError({ body: {}, url: 'http://a' });
+    });
+    const b = endpoint('http://b', () => keccak256(RAW));
+    const pool = new RpcPool([a, b], 1, log);
+
+    await assert.rejects(
+      client(pool).request({ method: 'eth_sendRawTransaction', params: [RAW] }),
+      /timed out/
+    );
+    assert.equal(b.calls.length, 0);
+  });
+
+  it('takes "already known" from a later endpoint as accepted', async () => {
+    const a = endpoint('http://a', () => {
+      throw new HttpRequestError({ url: 'http://a', status: 502 });
+    });
+    const b = endpoint('http://b', () => {
+      throw rpcError('http://b', -32000, 'already known');
+    });
+    const pool = new RpcPool([a, b], 1, log);
+
+    assert.equal(
+      await client(pool).request({ method: 'eth_sendRawTransaction', params: [RAW] }),
+      keccak256(RAW)
+    );
+  });
+});
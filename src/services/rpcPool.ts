@@ -0,0 +1,246 @@
+/**
+ * RPC endpoint pool (MAINNET_RPC_URL / TESTNET_RPC_URL, comma-separated)
+ *
+ * One transport shared by every client. Each request goes to the healthiest
+ * endpoint first and fails over to the next one on timeouts, HTTP / network
+ * errors, overloaded nodes, or a node that does not have the requested block
+ * yet. Answers such as reverts or nonce errors come back as they are: every
+ * node would give the same one.
+ *
+ * A raw transaction is not resent elsewhere after a timeout: the first node
+ * may have it. After other failures it is, and a node that already knows it
+ * counts as accepted.
+ *
+ * Endpoints are ranked by latency (moving average) plus a penalty for their
+ * recent error rate; one that failed within RPC_ENDPOINT_COOLDOWN goes last.
+ * With RPC_QUORUM above 1, state reads (eth_call, eth_getBalance, ...) need
+ * that many endpoints to return the same answer.
+ */
+
+import { BaseError, HttpRequestError, TimeoutError, custom, keccak256, type Hex, type Transport } from 'viem';
+import { RPC_POOL, TIMING } from '../config/constants';
+import { describeError } from './errors';
+import type { Logger } from './logger';
+
+/**
+ * One RPC endpoint (its url is only used for labels)
+ */
+export interface RpcEndpoint {
+  url: string;
+  transport: Transport;
+}
+
+/**
+ * Endpoint health, as reported on /health
+ */
+export interface RpcEndpointHealth {
+  endpoint: string;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  latencyMs?: number;
+  coolingDown: boolean;
+}
+
+type RpcRequest = { method: string; params?: unknown };
+type RpcRequestFn = (args: RpcRequest) => Promise<unknown>;
+
+interface EndpointStats {
+  label: string;
+  requests: number;
+  failures: number;
+  recent: boolean[]; // Last RPC_POOL.HEALTH_WINDOW outcomes (true: failed)
+  latency?: number;
+  failedAt?: number;
+}
+
+// Errors another node may not give (the others are the chain's answer)
+const FAILOVER_CODES = new Set([-1, -32603, -32005]); // unknown, internal, limit exceeded
+const MISSING_BLOCK = /header not found|unknown block|block not found|missing trie node/i;
+const ALREADY_KNOWN = /already known|known transaction|already imported/i;
+
+/**
+ * Whether a request error should be retried on another endpoint
+ */
+export function shouldFailOver(error: unknown): boolean {
+  if (error instanceof HttpRequestError || error instanceof TimeoutError) return true;
+  const code = (error as { code?: unknown })?.code;
+  if (typeof code !== 'number') return true; // Network failure, not a JSON-RPC answer
+  return FAILOVER_CODES.has(code) || MISSING_BLOCK.test(error instanceof Error ? error.message : '');
+}
+
+export class RpcPool {
+  private stats: EndpointStats[];
+
+  constructor(
+    private readonly endpoints: RpcEndpoint[],
+    private readonly quorum: number,
+    private readonly log: Logger
+  ) {
+    if (endpoints.length === 0) throw new Error('RpcPool needs at least one endpoint');
+    this.stats = endpoints.map((endpoint) => ({
+      label: endpointLabel(endpoint.url),
+      requests: 0,
+      failures: 0,
+      recent: [],
+    }));
+  }
+
+  /**
+   * Transport over every endpoint (retries happen across endpoints, not per endpoint)
+   */
+  get transport(): Transport {
+    return (params) => {
+      const requests = this.endpoints.map((endpoint) => {
+        const inner = endpoint.transport({ ...params, retryCount: 0 });
+        return inner.request as RpcRequestFn;
+      });
+      return custom(
+        { request: (args: RpcRequest) => this.request(requests, args) },
+        { key: 'rpcPool', name: 'RPC pool', retryCount: 0 }
+      )(params);
+    };
+  }
+
+  /**
+   * Endpoints in the order the next request would try them
+   */
+  health(): RpcEndpointHealth[] {
+    return this.ranked().map((i) => {
+      const stats = this.stats[i]!;
+      return {
+        endpoint: stats.label,
+        requests: stats.requests,
+        failures: stats.failures,
+        errorRate: Number(this.errorRate(stats).toFixed(3)),
+        latencyMs: stats.latency === undefined ? undefined : Math.round(stats.latency),
+        coolingDown: this.coolingDown(stats),
+      };
+    });
+  }
+
+  private async request(requests: RpcRequestFn[], args: RpcRequest): Promise<unknown> {
+    const order = this.ranked();
+    if (this.quorum > 1 && RPC_POOL.QUORUM_METHODS.has(args.method)) {
+      return this.quorumRequest(requests, order, args);
+    }
+
+    const rawTransaction = args.method === 'eth_sendRawTransaction';
+    let lastError: unknown;
+    for (const [n, i] of order.entries()) {
+      try {
+        return await this.attempt(requests, i, args);
+      } catch (error) {
+        // An earlier endpoint delivered it after all
+        if (rawTransaction && n > 0 && ALREADY_KNOWN.test(error instanceof Error ? error.message : '')) {
+          return keccak256((args.params as [Hex])[0]);
+        }
+        if (!shouldFailOver(error) || (rawTransaction && error instanceof TimeoutError)) throw error;
+        lastError = error;
+        const next = order[n + 1];
+        this.log.warn(
+          `⚠️  RPC ${this.stats[i]!.label} failed on ${args.method}: ${describeError(error)}` +
+            (next !== undefined ? `; trying ${this.stats[next]!.label}` : '')
+        );
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Ask endpoints until `quorum` of them return the same answer
+   */
+  private async quorumRequest(
+    requests: RpcRequestFn[],
+    order: number[],
+    args: RpcRequest
+  ): Promise<unknown> {
+    const votes = new Map<string, { result: unknown; count: number }>();
+    let lastError: unknown;
+
+    const ask = async (i: number) => {
+      try {
+        const result = await this.attempt(requests, i, args);
+        const key = JSON.stringify(result);
+        const vote = votes.get(key) ?? { result, count: 0 };
+        vote.count++;
+        votes.set(key, vote);
+      } catch (error) {
+        if (!shouldFailOver(error)) throw error;
+        lastError = error;
+      }
+    };
+    const agreed = () => [...votes.values()].find((vote) => vote.count >= this.quorum);
+
+    // The best `quorum` endpoints at once, then one more at a time
+    await Promise.all(order.slice(0, this.quorum).map(ask));
+    for (const i of order.slice(this.quorum)) {
+      if (agreed()) break;
+      await ask(i);
+    }
+
+    const vote = agreed();
+    if (vote) return vote.result;
+    // A viem error, so the client passes it on as is
+    throw new BaseError(
+      `RPC quorum not reached for ${args.method}: ${this.quorum} matching answers needed, ` +
+        `got ${[...votes.values()].map((v) => v.count).join('/') || 'none'}`,
+      { cause: lastError instanceof Error ? lastError : undefined }
+    );
+  }
+
+  private async attempt(requests: RpcRequestFn[], i: number, args: RpcRequest): Promise<unknown> {
+    const stats = this.stats[i]!;
+    const started = Date.now();
+    try {
+      const result = await requests[i]!(args);
+      this.recordOutcome(stats, Date.now() - started, false);
+      return result;
+    } catch (error) {
+      this.recordOutcome(stats, Date.now() - started, shouldFailOver(error));
+      throw error;
+    }
+  }
+
+  private recordOutcome(stats: EndpointStats, latency: number, failed: boolean): void {
+    stats.requests++;
+    stats.latency =
+      stats.latency === undefined
+        ? latency
+        : stats.latency + RPC_POOL.LATENCY_SMOOTHING * (latency - stats.latency);
+    stats.recent.push(failed);
+    if (stats.recent.length > RPC_POOL.HEALTH_WINDOW) stats.recent.shift();
+    if (failed) {
+      stats.failures++;
+      stats.failedAt = Date.now();
+    }
+  }
+
+  // Cooling down last, then by latency + error penalty, then in configured order
+  private ranked(): number[] {
+    const cost = (stats: EndpointStats) =>
+      (stats.latency ?? 0) + this.errorRate(stats) * RPC_POOL.ERROR_PENALTY;
+    return this.stats
+      .map((stats, i) => ({ i, cooling: this.coolingDown(stats), cost: cost(stats) }))
+      .sort((a, b) => Number(a.cooling) - Number(b.cooling) || a.cost - b.cost || a.i - b.i)
+      .map(({ i }) => i);
+  }
+
+  private errorRate(stats: EndpointStats): number {
+    if (stats.recent.length === 0) return 0;
+    return stats.recent.filter(Boolean).length / stats.recent.length;
+  }
+
+  private coolingDown(stats: EndpointStats): boolean {
+    return stats.failedAt !== undefined && Date.now() - stats.failedAt < TIMING.RPC_ENDPOINT_COOLDOWN;
+  }
+}
+
+// Host only: RPC URLs often carry an API key in the path or query
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+}
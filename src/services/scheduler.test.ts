@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { afterEach, describe, it } from 'node:test';
+import { parseEther } from 'viem';
+import { fetchAndPrepareTokens } from './metadata';
+import { applyCatchUp, runScheduler } from './scheduler';
+import { deriveWallet } from './wallet';
+import type { DryRunReport } from './dryRun';
+import type { TokenTask } from './storage';
+import type { BotConfig } from '../config';
+import { createTestBot, type TestBot } from '../testing';
+
+/** Plan every task of a stopped run, so the schedule is persisted but nothing is sent */
+async function planSchedule(env: Record<string, string>): Promise<TokenTask[]> {
+  const bot = await createTestBot({ TOTAL_TOKENS_TO_CREATE: '4', DURATION_HOURS: '1', ...env });
+  try {
+    bot.ctx.storage.saveMetadata(await fetchAndPrepareTokens(bot.ctx, 1, 4));
+    bot.ctx.control.stop('test');
+    await runScheduler(bot.ctx);
+    return bot.ctx.storage.loadState().schedule!.tasks;
+  } finally {
+    await bot.close();
+  }
+}
+
+/** What a plan decides, independent of when it started */
+const planOf = (tasks: TokenTask[]) =>
+  tasks.map((task) => [task.tokenIndex, task.walletIndex, task.delayMs, task.metadata.symbol]);
+
+describe('runScheduler', () => {
+  let bot: TestBot;
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('runs every task on its planned wallet with fewer workers than tasks', async () => {
+    bot = await createTestBot({ TOTAL_TOKENS_TO_CREATE: '4', WORKER_POOL_SIZE: '1' });
+    const { ctx } = bot;
+    ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 4));
+
+    await runScheduler(ctx);
+
+    const state = ctx.storage.loadState();
+    assert.equal(state.tokensCreated, 4);
+    for (const task of state.schedule!.tasks) {
+      const record = state.tasks[task.tokenIndex]!;
+      assert.equal(record.phase, 'settled');
+      assert.equal(record.walletIndex, task.walletIndex + 1); // Derivation index (0 is the master)
+    }
+  });
+
+  it('cancels tasks not started once the run is stopped', async () => {
+    bot = await createTestBot({ TOTAL_TOKENS_TO_CREATE: '4' });
+    const { ctx } = bot;
+    ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 4));
+    ctx.control.stop('test');
+
+    await runScheduler(ctx);
+
+    const state = ctx.storage.loadState();
+    assert.equal(state.tokensCreated, 0);
+    assert.equal(state.schedule?.tasks.length, 4);
+  });
+
+  it('refuses to plan more tokens than unused metadata entries', async () => {
+    bot = await createTestBot({ TOTAL_TOKENS_TO_CREATE: '3' });
+    const { ctx } = bot;
+    ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 2));
+
+    await assert.rejects(runScheduler(ctx), /exceeds unused metadata entries \(2\/2\)/);
+    assert.equal(ctx.storage.loadState().schedule, undefined);
+  });
+
+  it('projects spend and end balances in a dry run without broadcasting', async () => {
+    bot = await createTestBot({ DRY_RUN: 'true', TOTAL_TOKENS_TO_CREATE: '3' }, ['100', '25']);
+    const { ctx, chain } = bot;
+    ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 3));
+
+    await runScheduler(ctx);
+
+    const report = JSON.parse(readFileSync(ctx.storage.dryRunReportFile, 'utf-8')) as DryRunReport;
+    assert.equal(report.totals.tokens, 3);
+    assert.equal(report.totals.createFailures, 0);
+
+    // Each create simulates fine on its own, but together they outspend the wallet
+    const spent = report.tokens.reduce((sum, token) => sum + parseEther(token.monSpent), 0n);
+    assert.equal(parseEther(report.totals.monSpent), spent);
+    const [wallet] = report.wallets;
+    assert.equal(report.wallets.length, 1);
+    assert.equal(wallet!.tokens, 3);
+    assert.equal(parseEther(wallet!.monSpent), spent);
+    assert.equal(parseEther(wallet!.projectedEndBalance), parseEther('25') - spent);
+    assert.equal(wallet!.sufficientFunds, false);
+
+    // Nothing was sent or recorded
+    assert.equal(chain.getBalance(deriveWallet(ctx, 1).address), parseEther('25'));
+    assert.deepEqual(ctx.storage.loadState().tasks, {});
+    assert.deepEqual(ctx.storage.loadLedger(), []);
+  });
+});
+
+describe('schedule seed', () => {
+  it('plans the same schedule from the same SCHEDULE_SEED', async () => {
+    const first = await planSchedule({ SCHEDULE_SEED: 'alpha' });
+    const again = await planSchedule({ SCHEDULE_SEED: 'alpha' });
+    const other = await planSchedule({ SCHEDULE_SEED: 'beta' });
+
+    assert.deepEqual(planOf(again), planOf(first));
+    assert.notDeepEqual(planOf(other), planOf(first));
+  });
+
+  it('resumes the persisted plan instead of planning again', async () => {
+    const bot = await createTestBot({ TOTAL_TOKENS_TO_CREATE: '4', DURATION_HOURS: '1', SCHEDULE_SEED: 'alpha' });
+    try {
+      const { ctx } = bot;
+      ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 4));
+      ctx.control.stop('test');
+      await runScheduler(ctx);
+      const planned = ctx.storage.loadState().schedule!;
+
+      ctx.config.scheduleSeed = 'beta';
+      await runScheduler(ctx);
+      assert.deepEqual(ctx.storage.loadState().schedule, planned);
+    } finally {
+      await bot.close();
+    }
+  });
+});
+
+describe('applyCatchUp', () => {
+  const HOUR = 60 * 60 * 1000;
+  const now = Date.now();
+  const task = (tokenIndex: number, scheduledTime: number) =>
+    ({ tokenIndex, scheduledTime }) as TokenTask;
+  // Two slots missed while the bot was down, one still ahead
+  const tasks = [task(0, now - 2 * HOUR), task(1, now - HOUR), task(2, now + HOUR)];
+  const catchUp = (catchUpPolicy: BotConfig['catchUpPolicy']) =>
+    applyCatchUp({ catchUpPolicy } as BotConfig, tasks, HOUR, now);
+
+  it('burst runs overdue slots at once', () => {
+    const result = catchUp('burst');
+    assert.equal(result.overdue, 2);
+    assert.deepEqual(result.tasks, tasks);
+  });
+
+  it('drop skips overdue slots', () => {
+    const result = catchUp('drop');
+    assert.equal(result.dropped, 2);
+    assert.deepEqual(result.tasks, [tasks[2]]);
+  });
+
+  it('spread re-times overdue slots from now at the average pace', () => {
+    const result = catchUp('spread');
+    assert.equal(result.dropped, 0);
+    assert.deepEqual(
+      result.tasks.map((t) => [t.tokenIndex, t.scheduledTime]),
+      [
+        [0, now],
+        [1, now + HOUR],
+        [2, now + HOUR],
+      ]
+    );
+  });
+});
@@ -2,77 +2,77 @@
  * Token creation scheduler
  */
 
-import { deriveWallets, type WalletInstance } from './wallet';
-import { loadMetadata, loadState, saveState } from './storage';
-import { executeTokenCreation } from './tokenCreator';
-import { config } from '../config';
+import { formatEther, parseEther } from 'viem';
+import { deriveWallets, getBalance, type WalletInstance } from './wallet';
+import { executeTokenCreation, recoverTasks } from './tokenCreator';
+import { createRandom, randomSeed, type Random } from './random';
+import { MetadataPool } from './metadataPool';
+import { classifyError, formatBotError } from './errors';
+import { setLogContext, withLogContext } from './logger';
+import { startMetricsServer } from './metrics';
+import { PriorityQueue } from './priorityQueue';
+import { WalletSelector } from './walletSelector';
+import type { BotConfig } from '../config';
+import type { BotContext } from './context';
+import type { TokenTask } from './storage';
 import { TIMING } from '../config/constants';
-import type { PreparedToken } from '../types';
 
-/**
- * Token creation task
- */
-interface TokenTask {
-  tokenIndex: number;
-  walletIndex: number;
-  metadata: PreparedToken;
-  delayMs: number;
-  scheduledTime: number;
-}
+type TaskOutcome = 'succeeded' | 'failed' | 'cancelled';
 
 /**
- * Wallet lock manager to prevent nonce conflicts
+ * Report wallets below LOW_BALANCE_THRESHOLD (once until they recover)
  */
-class WalletLockManager {
-  private locks: Map<number, boolean> = new Map();
-
-  /**
-   * Try to acquire lock for a wallet
-   * Returns true if acquired, false if already locked
-   */
-  tryAcquire(walletIndex: number): boolean {
-    if (this.locks.get(walletIndex)) {
-      return false; // Already locked
+async function checkBalances(
+  ctx: BotContext,
+  wallets: WalletInstance[],
+  alerted: Set<number>
+): Promise<void> {
+  const threshold = ctx.config.lowBalanceThreshold;
+  if (threshold === undefined) return;
+
+  for (const wallet of wallets) {
+    const balance = await getBalance(wallet).catch(() => undefined);
+    if (balance === undefined) continue;
+
+    if (balance >= parseEther(threshold)) {
+      alerted.delete(wallet.index);
+    } else if (!alerted.has(wallet.index)) {
+      alerted.add(wallet.index);
+      ctx.log.warn(`⚠️  Wallet [${wallet.index}] balance ${formatEther(balance)} MON is below ${threshold} MON`);
+      ctx.notifier.notify({
+        type: 'low-balance',
+        walletIndex: wallet.index,
+        address: wallet.address,
+        balance: formatEther(balance),
+        threshold,
+      });
     }
-    this.locks.set(walletIndex, true);
-    return true;
-  }
-
-  /**
-   * Release lock for a wallet
-   */
-  release(walletIndex: number): void {
-    this.locks.set(walletIndex, false);
-  }
-
-  /**
-   * Check if wallet is locked
-   */
-  isLocked(walletIndex: number): boolean {
-    return this.locks.get(walletIndex) || false;
   }
 }
 
 /**
  * Calculate random delay with given average and randomness
  */
-function getRandomDelay(averageMs: number, randomness: number): number {
+function getRandomDelay(random: Random, averageMs: number, randomness: number): number {
   const min = averageMs * (1 - randomness);
   const max = averageMs * (1 + randomness);
-  return Math.floor(Math.random() * (max - min) + min);
+  return Math.floor(random() * (max - min) + min);
 }
 
 /**
  * Generate all token creation tasks with delays
  */
 function generateTasks(
-  totalTokens: number,
+  config: BotConfig,
+  random: Random,
+  tokenIndices: number[],
   durationMs: number,
   numWallets: number,
-  metadata: PreparedToken[],
+  pool: MetadataPool,
   startTime: number
 ): TokenTask[] {
   const tasks: TokenTask[] = [];
+  const totalTokens = tokenIndices.length;
   const averageDelay = durationMs / totalTokens;
 
   if (config.executionMode === 'parallel') {
@@ -81,7 +81,7 @@ function generateTasks(
     const randomTimes: number[] = [];
     for (let i = 0; i < totalTokens; i++) {
       // Generate random time within [0, durationMs]
-      const randomTime = Math.random() * durationMs;
+      const randomTime = random() * durationMs;
       randomTimes.push(randomTime);
     }
 
@@ -89,13 +89,12 @@ function generateTasks(
     randomTimes.sort((a, b) => a - b);
 
     for (let i = 0; i < totalTokens; i++) {
-      // Select random metadata
-      const randomMetadataIndex = Math.floor(Math.random() * metadata.length);
+      const tokenIndex = tokenIndices[i]!;
 
       tasks.push({
-        tokenIndex: i,
-        walletIndex: i % numWallets,
-        metadata: metadata[randomMetadataIndex]!,
+        tokenIndex,
+        walletIndex: tokenIndex % numWallets,
+        metadata: pool.next(),
         delayMs: randomTimes[i]!,
         scheduledTime: startTime + randomTimes[i]!,
       });
@@ -105,16 +104,15 @@ function generateTasks(
     for (let i = 0; i < totalTokens; i++) {
       const baseDelay = i * averageDelay;
       const delay = config.delayRandomness > 0
-        ? getRandomDelay(baseDelay, config.delayRandomness)
+        ? getRandomDelay(random, baseDelay, config.delayRandomness)
         : baseDelay;
 
-      // Select random metadata
-      const randomMetadataIndex = Math.floor(Math.random() * metadata.length);
+      const tokenIndex = tokenIndices[i]!;
 
       tasks.push({
-        tokenIndex: i,
-        walletIndex: i % numWallets,
-        metadata: metadata[randomMetadataIndex]!,
+        tokenIndex,
+        walletIndex: tokenIndex % numWallets,
+        metadata: pool.next(),
         delayMs: delay,
         scheduledTime: startTime + delay,
       });
@@ -124,69 +122,248 @@ function generateTasks(
   return tasks;
 }
 
+/**
+ * Re-time (or drop) slots that became overdue while the bot was down
+ */
+export function applyCatchUp(
+  config: BotConfig,
+  tasks: TokenTask[],
+  averageDelay: number,
+  now: number
+): { tasks: TokenTask[]; overdue: number; dropped: number } {
+  const cutoff = now - TIMING.SCHEDULE_OVERDUE_GRACE;
+  const onTime = tasks.filter((task) => task.scheduledTime >= cutoff);
+  const overdue = tasks
+    .filter((task) => task.scheduledTime < cutoff)
+    .sort((a, b) => a.scheduledTime - b.scheduledTime);
+
+  switch (config.catchUpPolicy) {
+    case 'burst':
+      return { tasks, overdue: overdue.length, dropped: 0 };
+    case 'drop':
+      return { tasks: onTime, overdue: overdue.length, dropped: overdue.length };
+    case 'spread': {
+      // Overdue slots run from now at the plan's average pace
+      const spread = overdue.map((task, i) => ({
+        ...task,
+        scheduledTime: now + i * averageDelay,
+      }));
+      return { tasks: [...spread, ...onTime], overdue: overdue.length, dropped: 0 };
+    }
+  }
+}
+
 /**
  * Execute a single token creation task
+ * Failures are classified; one that calls for an abort stops the whole run.
  */
 async function executeTask(
+  ctx: BotContext,
   task: TokenTask,
   wallet: WalletInstance,
-  lockManager: WalletLockManager
-): Promise<void> {
-  const scheduledDate = new Date(task.scheduledTime);
-  const now = Date.now();
-  const waitTime = Math.max(0, task.scheduledTime - now);
+  run: AbortController
+): Promise<TaskOutcome> {
+  const { config } = ctx;
 
-  if (waitTime > 0) {
-    console.log(
-      `\n⏰ Token ${task.tokenIndex + 1} scheduled at ${scheduledDate.toLocaleTimeString()}`
-    );
-    console.log(`   Waiting ${(waitTime / 1000 / 60).toFixed(2)} minutes...`);
-    await new Promise((resolve) => setTimeout(resolve, waitTime));
-  }
+  ctx.log.info(`\n${'='.repeat(80)}`);
+  ctx.log.info(`Creating token ${task.tokenIndex + 1}/${config.totalTokensToCreate}: ${task.metadata.symbol}`);
+  ctx.log.info(`Wallet [${wallet.index}]: ${wallet.address}`);
+  ctx.log.info(`Scheduled: ${new Date(task.scheduledTime).toLocaleTimeString()}`);
+  ctx.log.info(`Actual: ${new Date().toLocaleTimeString()}`);
+  ctx.log.info(`${'='.repeat(80)}`);
 
-  // Wait for wallet to be available (not locked by another task)
-  while (!lockManager.tryAcquire(task.walletIndex)) {
-    console.log(
-      `\n⏳ Token ${task.tokenIndex + 1}: Wallet [${task.walletIndex + 1}] is busy, waiting...`
-    );
-    await new Promise((resolve) => setTimeout(resolve, TIMING.WALLET_LOCK_POLL_INTERVAL));
+  try {
+    await executeTokenCreation(ctx, wallet, task.metadata, task.tokenIndex);
+  } catch (error) {
+    const classified = classifyError(error);
+    ctx.metrics.tokenFailed();
+    ctx.log.error(`\n❌ Token ${task.tokenIndex + 1} failed: ${formatBotError(classified)}`);
+    if (classified.action === 'abort') {
+      ctx.log.error(`🛑 Aborting run: remaining tasks are cancelled`);
+      run.abort(new Error('Run aborted after an unrecoverable error'));
+    }
+    ctx.limits.taskFailed();
+    return 'failed';
   }
 
-  try {
-    console.log(`\n${'='.repeat(80)}`);
-    console.log(`Creating token ${task.tokenIndex + 1}/${config.totalTokensToCreate}: ${task.metadata.symbol}`);
-    console.log(`Wallet [${task.walletIndex + 1}]: ${wallet.address}`);
-    console.log(`Scheduled: ${scheduledDate.toLocaleTimeString()}`);
-    console.log(`Actual: ${new Date().toLocaleTimeString()}`);
-    console.log(`${'='.repeat(80)}`);
-
-    await executeTokenCreation(wallet, task.metadata);
-
-    console.log(`✅ Token ${task.tokenIndex + 1} created successfully!`);
-  } finally {
-    // Always release the lock, even if execution failed
-    lockManager.release(task.walletIndex);
+  ctx.limits.taskSucceeded();
+  ctx.log.info(`✅ Token ${task.tokenIndex + 1} created successfully!`);
+  return 'succeeded';
+}
+
+/**
+ * Note a task given to another wallet than the schedule planned
+ * The persisted schedule follows, so a resumed run keeps the new wallet.
+ */
+async function recordReassignment(
+  ctx: BotContext,
+  task: TokenTask,
+  planned: WalletInstance,
+  wallet: WalletInstance
+): Promise<void> {
+  ctx.log.info(
+    `\n🔀 Token ${task.tokenIndex + 1}: Wallet [${planned.index}] -> Wallet [${wallet.index}] (${ctx.config.walletSelection})`
+  );
+  if (ctx.config.dryRun) return;
+
+  await ctx.storage.updateState((state) => {
+    (state.reassignments ??= []).push({
+      tokenIndex: task.tokenIndex,
+      fromWalletIndex: planned.index,
+      toWalletIndex: wallet.index,
+      strategy: ctx.config.walletSelection,
+      at: Date.now(),
+    });
+    const scheduled = state.schedule?.tasks.find((t) => t.tokenIndex === task.tokenIndex);
+    if (scheduled) scheduled.walletIndex = wallet.index - 1;
+  });
+}
+
+/**
+ * Run tasks in scheduledTime order on a pool of `workers`
+ * One timer waits for the next slot (dry runs do not wait). The selector picks
+ * each due task's wallet; a wallet runs one task at a time, and a task with no
+ * wallet to run it waits for one to finish while later tasks go ahead. Nothing
+ * starts while the run is paused; once it is aborted (error, safety limit,
+ * stop request) tasks not started are cancelled and running ones finish.
+ */
+async function dispatch(
+  ctx: BotContext,
+  tasks: TokenTask[],
+  workers: number,
+  run: AbortController,
+  selector: WalletSelector,
+  execute: (task: TokenTask, wallet: WalletInstance) => Promise<TaskOutcome>
+): Promise<TaskOutcome[]> {
+  const dueAt = (task: TokenTask) => (ctx.config.dryRun ? 0 : task.scheduledTime);
+  const queue = new PriorityQueue<TokenTask>(
+    (a, b) => a.scheduledTime - b.scheduledTime || a.tokenIndex - b.tokenIndex
+  );
+  tasks.forEach((task) => queue.push(task));
+
+  const outcomes: TaskOutcome[] = [];
+  const running = new Set<Promise<void>>();
+  const busyWallets = new Set<number>(); // wallet.index
+  let waiting: TokenTask[] = []; // Due, no wallet to run it
+  let wake: (() => void) | undefined;
+  let announced: TokenTask | undefined;
+  const reportedBusy = new Set<TokenTask>();
+
+  const start = (task: TokenTask, wallet: WalletInstance) => {
+    busyWallets.add(wallet.index);
+    const done: Promise<void> = execute(task, wallet)
+      .then((outcome) => {
+        outcomes.push(outcome);
+      })
+      .finally(() => {
+        running.delete(done);
+        busyWallets.delete(wallet.index);
+        waiting.forEach((t) => queue.push(t));
+        waiting = [];
+        wake?.();
+      });
+    running.add(done);
+  };
+
+  while ((queue.size > 0 || waiting.length > 0) && !run.signal.aborted) {
+    await ctx.control.whilePaused(run.signal);
+    if (run.signal.aborted) break;
+
+    // Earliest due task a wallet is free for
+    let next: { task: TokenTask; wallet: WalletInstance } | undefined;
+    while (running.size < workers && queue.size > 0 && dueAt(queue.peek()!) <= Date.now()) {
+      const task = queue.pop()!;
+      const wallet = await selector.select(task, busyWallets);
+      if (wallet) {
+        next = { task, wallet };
+        break;
+      }
+      if (!reportedBusy.has(task)) {
+        reportedBusy.add(task);
+        ctx.log.info(
+          selector.strategy === 'planned'
+            ? `\n⏳ Token ${task.tokenIndex + 1}: Wallet [${selector.planned(task).index}] is busy, waiting for it`
+            : `\n⏳ Token ${task.tokenIndex + 1}: every wallet is busy, waiting for one`
+        );
+      }
+      waiting.push(task);
+    }
+    if (next) {
+      start(next.task, next.wallet);
+      continue;
+    }
+
+    // Wait for the next slot (if a worker is free), a finished task or an abort
+    const head = running.size < workers ? queue.peek() : undefined;
+    if (!head && running.size === 0) break;
+    if (head && head !== announced && dueAt(head) > Date.now()) {
+      announced = head;
+      ctx.log.info(
+        `\n⏰ Token ${head.tokenIndex + 1} scheduled at ${new Date(head.scheduledTime).toLocaleTimeString()}`
+      );
+      ctx.log.info(`   Waiting ${((dueAt(head) - Date.now()) / 1000 / 60).toFixed(2)} minutes...`);
+    }
+    await new Promise<void>((resolve) => {
+      const timer = head ? setTimeout(done, dueAt(head) - Date.now()) : undefined;
+      run.signal.addEventListener('abort', done, { once: true });
+      wake = done;
+      function done() {
+        clearTimeout(timer);
+        run.signal.removeEventListener('abort', done);
+        wake = undefined;
+        resolve();
+      }
+    });
   }
+
+  // Not started: cancelled; running tasks finish
+  const cancelled = queue.size + waiting.length;
+  outcomes.push(...Array<TaskOutcome>(cancelled).fill('cancelled'));
+  while (running.size > 0) await Promise.all(running);
+  return outcomes;
 }
 
 /**
- * Run the bot scheduler
+ * Run the bot scheduler (with the monitoring server, if METRICS_PORT is set)
+ * Every log line of the run carries its runId (known once the state is loaded);
+ * queued notifications are sent before it returns. The control file is
+ * watched while it runs; a stop request (ctx.control) returns normally once
+ * running tasks have finished.
  */
-export async function runScheduler(): Promise<void> {
-  console.log('\n' + '='.repeat(80));
-  console.log('TOKEN CREATION BOT STARTED');
-  console.log('='.repeat(80));
-  console.log(`\nNetwork: ${config.networkMode}`);
-  console.log(`Total tokens to create: ${config.totalTokensToCreate}`);
-  console.log(`Duration: ${config.durationHours} hours`);
-  console.log(`Number of wallets: ${config.numWallets}`);
-  console.log(`Execution mode: ${config.executionMode}`);
-  console.log(`Delay randomness: ${(config.delayRandomness * 100).toFixed(0)}%`);
-  console.log(`Initial buy amount: ${config.initialBuyAmount} MON`);
-  console.log(`Sell percentage: ${config.sellPercentage}%`);
+export function runScheduler(ctx: BotContext): Promise<void> {
+  return withLogContext({ runId: ctx.storage.loadState().runId }, async () => {
+    const server = ctx.config.metricsPort !== undefined ? await startMetricsServer(ctx) : undefined;
+    const unwatch = ctx.control.watch();
+    try {
+      await schedule(ctx);
+    } finally {
+      unwatch();
+      await server?.close();
+      await ctx.notifier.close();
+    }
+  });
+}
+
+async function schedule(ctx: BotContext): Promise<void> {
+  const { config, storage } = ctx;
+
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('TOKEN CREATION BOT STARTED');
+  ctx.log.info('='.repeat(80));
+  ctx.log.info(`\nNetwork: ${config.networkMode}`);
+  ctx.log.info(`Total tokens to create: ${config.totalTokensToCreate}`);
+  ctx.log.info(`Duration: ${config.durationHours} hours`);
+  ctx.log.info(`Number of wallets: ${config.numWallets}`);
+  ctx.log.info(`Execution mode: ${config.executionMode}`);
+  ctx.log.info(`Delay randomness: ${(config.delayRandomness * 100).toFixed(0)}%`);
+  ctx.log.info(`Initial buy amount: ${config.initialBuyAmount} MON`);
+  ctx.log.info(`Sell percentage: ${config.sellPercentage}%`);
+  if (config.dryRun) {
+    ctx.log.info(`\n🧪 DRY RUN: quoting and simulating only, nothing will be broadcast`);
+  }
 
   // Load metadata
-  const metadata = loadMetadata();
+  const metadata = storage.loadMetadata();
 
   if (metadata.length === 0) {
     throw new Error(
@@ -194,120 +371,286 @@ export async function runScheduler(): Promise<void> {
     );
   }
 
-  console.log(`\nMetadata loaded: ${metadata.length} entries (will be randomly selected)`);
+  const usage = storage.loadMetadataUsage();
+  ctx.log.info(
+    `\nMetadata loaded: ${metadata.length} entries (selection: ${config.metadataSelection})`
+  );
   metadata.forEach((m, i) => {
-    console.log(`  [${i + 1}] ${m.symbol}`);
+    const used = usage.entries[m.tokenURI]?.count ?? 0;
+    ctx.log.info(`  [${i + 1}] ${m.symbol}${used > 0 ? ` (used ${used}x)` : ''}`);
   });
 
-  // Load state
-  const state = loadState();
+  // Finish anything a previous run left mid-flight, then load state
+  if (!config.dryRun) {
+    await recoverTasks(ctx);
+  }
+  const state = storage.loadState();
 
   // Derive wallets (skip index 0 which is master wallet)
-  const wallets = deriveWallets(config.mnemonic, config.numWallets + 1).slice(1);
+  const wallets = deriveWallets(ctx, config.numWallets + 1).slice(1);
 
-  console.log(`\nWallets loaded: ${wallets.length}`);
+  ctx.log.info(`\nWallets loaded: ${wallets.length}`);
   wallets.forEach((w, i) => {
-    console.log(`  [${i + 1}] ${w.address}`);
+    ctx.log.info(`  [${i + 1}] ${w.address}`);
   });
 
-  // Set start time if not already set
-  if (!state.startTime) {
-    state.startTime = Date.now();
-    await saveState(state);
+  // Set start time (and the run id grouping ledger entries) if not already set
+  if (!state.startTime || !state.runId) {
+    state.startTime ??= Date.now();
+    state.runId ??= `run-${new Date(state.startTime).toISOString()}`;
+    if (!config.dryRun) {
+      await storage.saveState(state);
+    }
   }
+  setLogContext({ runId: state.runId });
 
   const durationMs = config.durationHours * 60 * 60 * 1000;
   const estimatedEndTime = new Date(state.startTime + durationMs);
 
-  console.log(`\nStart time: ${new Date(state.startTime).toLocaleString()}`);
-  console.log(`Estimated completion: ${estimatedEndTime.toLocaleString()}`);
-
-  // Generate tasks
-  const remainingTokens = config.totalTokensToCreate - state.tokensCreated;
-  if (remainingTokens === 0) {
-    console.log('\n✅ All tokens have already been created!');
+  ctx.log.info(`\nStart time: ${new Date(state.startTime).toLocaleString()}`);
+  ctx.log.info(`Estimated completion: ${estimatedEndTime.toLocaleString()}`);
+
+  // Generate tasks for token indices that never got a token
+  // (no record, never started, or failed before it had a salt; a failed task
+  // with a salt is left to recovery, which checks whether its create landed)
+  const remainingTokens = Math.max(0, config.totalTokensToCreate - state.tokensCreated);
+  const pendingIndices = Array.from({ length: config.totalTokensToCreate }, (_, i) => i)
+    .filter((i) => {
+      const record = state.tasks[i];
+      return (
+        !record ||
+        record.phase === 'scheduled' ||
+        (record.phase === 'failed' && record.tokensReceived === undefined && !record.salt)
+      );
+    })
+    .slice(0, remainingTokens);
+
+  if (pendingIndices.length === 0) {
+    ctx.log.info('\n✅ All tokens have already been created!');
     return;
   }
 
-  console.log(`\n📋 Generating ${remainingTokens} token creation tasks...`);
-  const tasks = generateTasks(
-    remainingTokens,
-    durationMs,
-    wallets.length,
-    metadata,
-    state.startTime
+  // Load the persisted plan, or generate it once from the seed
+  let schedule = state.schedule;
+  if (!schedule) {
+    const seed = config.scheduleSeed ?? randomSeed();
+    const allIndices = Array.from({ length: config.totalTokensToCreate }, (_, i) => i);
+    const random = createRandom(seed);
+    const pool = new MetadataPool(metadata, usage, config.metadataSelection, random);
+
+    // Launching more tokens than unused entries means some metadata repeats
+    const unused = pool.unusedCount();
+    if (allIndices.length > unused) {
+      const message =
+        `TOTAL_TOKENS_TO_CREATE (${allIndices.length}) exceeds unused metadata entries ` +
+        `(${unused}/${pool.size})`;
+      if (config.metadataExhausted === 'refuse') {
+        throw new Error(
+          `${message}. Prepare more metadata, or set METADATA_EXHAUSTED=warn to reuse entries.`
+        );
+      }
+      ctx.log.warn(`⚠️  ${message}; least-used entries will be reused`);
+    }
+
+    ctx.log.info(`\n📋 Generating ${allIndices.length} token creation tasks (seed: ${seed})...`);
+    schedule = {
+      seed,
+      generatedAt: Date.now(),
+      tasks: generateTasks(
+        config,
+        random,
+        allIndices,
+        durationMs,
+        wallets.length,
+        pool,
+        state.startTime
+      ),
+    };
+
+    if (!config.dryRun) {
+      const persisted = schedule;
+      await storage.updateState((current) => {
+        current.schedule = persisted;
+      });
+    }
+  } else {
+    ctx.log.info(`\n📋 Resuming persisted schedule (seed: ${schedule.seed})`);
+    if (schedule.tasks.length !== config.totalTokensToCreate) {
+      ctx.log.warn(
+        `⚠️  Schedule has ${schedule.tasks.length} tasks but TOTAL_TOKENS_TO_CREATE is ${config.totalTokensToCreate}; keeping the persisted plan`
+      );
+    }
+  }
+
+  // Skip completed indices, then apply the catch-up policy to overdue slots
+  const pendingSet = new Set(pendingIndices);
+  const averageDelay = durationMs / config.totalTokensToCreate;
+  const catchUp = applyCatchUp(
+    config,
+    schedule.tasks.filter((task) => pendingSet.has(task.tokenIndex)),
+    averageDelay,
+    Date.now()
   );
+  const tasks = catchUp.tasks;
+
+  if (catchUp.overdue > 0) {
+    ctx.log.info(
+      `⏱️  ${catchUp.overdue} overdue slot(s), catch-up policy "${config.catchUpPolicy}"` +
+        (catchUp.dropped > 0 ? `: dropped ${catchUp.dropped}` : '')
+    );
+  }
+
+  if (tasks.length === 0) {
+    ctx.log.info('\n✅ No remaining tasks to run');
+    return;
+  }
 
   // Sort tasks by scheduled time for display
   const sortedTasks = [...tasks].sort((a, b) => a.scheduledTime - b.scheduledTime);
-  console.log(`\n📅 Token creation schedule:`);
+  ctx.log.info(`\n📅 Token creation schedule:`);
   sortedTasks.slice(0, 10).forEach((task) => {
     const time = new Date(task.scheduledTime).toLocaleTimeString();
-    console.log(
+    ctx.log.info(
       `  ${task.tokenIndex + 1}. ${task.metadata.symbol.padEnd(10)} at ${time} (Wallet ${task.walletIndex + 1})`
     );
   });
   if (sortedTasks.length > 10) {
-    console.log(`  ... and ${sortedTasks.length - 10} more`);
+    ctx.log.info(`  ... and ${sortedTasks.length - 10} more`);
   }
 
-  console.log('\n' + '='.repeat(80));
-  console.log(`🚀 Starting ${config.executionMode} execution...`);
-  console.log('='.repeat(80) + '\n');
-
-  // Create wallet lock manager
-  const lockManager = new WalletLockManager();
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info(`🚀 Starting ${config.executionMode} execution...`);
+  ctx.log.info('='.repeat(80) + '\n');
+
+  if (!config.dryRun) {
+    ctx.notifier.notify({
+      type: 'run-started',
+      runId: state.runId!,
+      tokens: tasks.length,
+      wallets: wallets.length,
+      durationHours: config.durationHours,
+    });
+  }
+  const lowBalance = new Set<number>();
+  await checkBalances(ctx, wallets, lowBalance);
+
+  const run = new AbortController();
+  // Safety limits drain the run, stop requests end it the same way
+  for (const signal of [ctx.limits.signal, ctx.control.signal]) {
+    const follow = () => run.abort(signal.reason);
+    if (signal.aborted) follow();
+    else signal.addEventListener('abort', follow, { once: true });
+  }
+  const selector = new WalletSelector(wallets, config.walletSelection);
+  const runTask = async (task: TokenTask, wallet: WalletInstance) => {
+    const planned = selector.planned(task);
+    if (wallet.index !== planned.index) {
+      await recordReassignment(ctx, task, planned, wallet);
+    }
+    const fields = {
+      tokenIndex: task.tokenIndex,
+      walletIndex: wallet.index,
+      wallet: wallet.address,
+      symbol: task.metadata.symbol,
+    };
+    return withLogContext(fields, async () => {
+      const outcome = await executeTask(ctx, task, wallet, run);
+      if (outcome !== 'cancelled') {
+        selector.record(wallet, outcome === 'succeeded');
+        await checkBalances(ctx, [wallet], lowBalance);
+      }
+      return outcome;
+    });
+  };
+  const notifyCompleted = (aborted: boolean) => {
+    const finalState = storage.loadState();
+    const phases = Object.values(finalState.tasks).map((t) => t.phase);
+    ctx.notifier.notify({
+      type: 'run-completed',
+      runId: state.runId!,
+      tokensCreated: finalState.tokensCreated,
+      settled: phases.filter((phase) => phase === 'settled').length,
+      failed: phases.filter((phase) => phase === 'failed').length,
+      aborted,
+    });
+  };
+
+  // Sequential mode is a pool of one (failed tasks are skipped unless they abort the run)
+  const workers = config.executionMode === 'parallel' ? config.workerPoolSize : 1;
+  const outcomes = await dispatch(ctx, tasks, workers, run, selector, runTask);
 
-  // Execute based on mode
   if (config.executionMode === 'parallel') {
-    // Parallel execution (no retry, skip failures)
-    const results = await Promise.allSettled(
-      tasks.map((task) =>
-        executeTask(task, wallets[task.walletIndex]!, lockManager).catch((error) => {
-          console.error(`\n❌ Task ${task.tokenIndex + 1} failed, skipping:`);
-          console.error(error instanceof Error ? error.stack || error.message : error);
-          // Don't throw, just skip this token
-        })
-      )
-    );
+    const count = (outcome: TaskOutcome) => outcomes.filter((o) => o === outcome).length;
+
+    ctx.log.info('\n' + '='.repeat(80));
+    ctx.log.info('📊 EXECUTION SUMMARY');
+    ctx.log.info('='.repeat(80));
+    ctx.log.info(`Total tasks: ${outcomes.length}`);
+    ctx.log.info(`✅ Successful: ${count('succeeded')}`);
+    ctx.log.info(`❌ Failed: ${count('failed')}`);
+    if (run.signal.aborted) ctx.log.info(`🛑 Cancelled: ${count('cancelled')}`);
+  }
 
-    // Count successes and failures
-    const successes = results.filter((r) => r.status === 'fulfilled').length;
-    const failures = results.filter((r) => r.status === 'rejected').length;
+  // Aborted, drained by a safety limit or stopped (in-flight tasks have finished)
+  if (run.signal.aborted) {
+    if (!config.dryRun) notifyCompleted(true);
+    if (run.signal.reason !== ctx.control.signal.reason) throw run.signal.reason;
+
+    const finalState = storage.loadState();
+    const left = tasks.filter((task) => {
+      const phase = finalState.tasks[task.tokenIndex]?.phase;
+      return phase !== 'settled' && phase !== 'failed';
+    }).length;
+    ctx.log.info('\n' + '='.repeat(80));
+    ctx.log.info(`🛑 RUN STOPPED: ${ctx.control.stopReason}`);
+    ctx.log.info('='.repeat(80));
+    ctx.log.info(`\nTokens created: ${finalState.tokensCreated}/${config.totalTokensToCreate}`);
+    ctx.log.info(`Tasks left for the next start: ${left}`);
+    ctx.log.info('\n' + '='.repeat(80) + '\n');
+    return;
+  }
 
-    console.log('\n' + '='.repeat(80));
-    console.log('📊 EXECUTION SUMMARY');
-    console.log('='.repeat(80));
-    console.log(`Total tasks: ${results.length}`);
-    console.log(`✅ Successful: ${successes}`);
-    console.log(`❌ Failed: ${failures}`);
-  } else {
-    // Sequential execution (skip failures, continue)
-    for (const task of sortedTasks) {
-      try {
-        await executeTask(task, wallets[task.walletIndex]!, lockManager);
-      } catch (error) {
-        console.error(`\n❌ Token ${task.tokenIndex + 1} failed, skipping:`);
-        console.error(error instanceof Error ? error.stack || error.message : error);
-        // Continue to next token instead of stopping
-      }
-    }
+  if (config.dryRun) {
+    const { report, path } = ctx.dryRun.write();
+
+    ctx.log.info('\n' + '='.repeat(80));
+    ctx.log.info('🧪 DRY RUN COMPLETED');
+    ctx.log.info('='.repeat(80));
+    ctx.log.info(`\nSimulated tokens: ${report.totals.tokens}`);
+    ctx.log.info(`Create simulation failures: ${report.totals.createFailures}`);
+    ctx.log.info(`Projected MON spent: ${report.totals.monSpent}`);
+    ctx.log.info(`\nProjected wallet balances:`);
+    report.wallets.forEach((w) => {
+      const flag = w.sufficientFunds ? '' : '  ⚠️  insufficient funds';
+      ctx.log.info(
+        `  [${w.walletIndex}] ${w.address}  ${w.startBalance} → ${w.projectedEndBalance} MON${flag}`
+      );
+    });
+    ctx.log.info(`\nReport written to ${path}`);
+    ctx.log.info('\n' + '='.repeat(80) + '\n');
+    return;
   }
 
-  // Completion
+  // Completion (reload: tasks updated state on disk)
+  const finalState = storage.loadState();
   const totalTime = Date.now() - state.startTime!;
   const totalHours = (totalTime / 1000 / 60 / 60).toFixed(2);
 
-  console.log('\n' + '='.repeat(80));
-  console.log('✅ BOT COMPLETED SUCCESSFULLY!');
-  console.log('='.repeat(80));
-  console.log(`\nTokens created: ${state.tokensCreated}/${config.totalTokensToCreate}`);
-  console.log(`Total time: ${totalHours} hours`);
-  console.log(`\nCreated tokens:`);
+  ctx.log.info('\n' + '='.repeat(80));
+  ctx.log.info('✅ BOT COMPLETED SUCCESSFULLY!');
+  ctx.log.info('='.repeat(80));
+  const settled = Object.values(finalState.tasks).filter((t) => t.phase === 'settled').length;
+  const failed = Object.values(finalState.tasks).filter((t) => t.phase === 'failed').length;
+
+  ctx.log.info(`\nTokens created: ${finalState.tokensCreated}/${config.totalTokensToCreate}`);
+  ctx.log.info(`Tasks settled: ${settled}, failed: ${failed}`);
+  ctx.log.info(`Total time: ${totalHours} hours`);
+  ctx.log.info(`\nCreated tokens:`);
 
-  state.createdTokens.forEach((token, i) => {
-    console.log(`  [${i + 1}] ${token.metadata.symbol}: ${token.tokenAddress}`);
+  finalState.createdTokens.forEach((token, i) => {
+    ctx.log.info(`  [${i + 1}] ${token.metadata.symbol}: ${token.tokenAddress}`);
   });
 
-  console.log('\n' + '='.repeat(80) + '\n');
+  ctx.log.info('\n' + '='.repeat(80) + '\n');
+  notifyCompleted(false);
 }
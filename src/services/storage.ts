@@ -2,13 +2,11 @@
  * Data storage service (JSON-based)
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { readFileSync, writeFileSync, appendFileSync, existsSync, mkdirSync } from 'fs';
+import { resolve } from 'path';
 import type { PreparedToken, PreparedTokensFile } from '../types';
-
-const DATA_DIR = resolve(__dirname, '../../data');
-const METADATA_FILE = resolve(DATA_DIR, 'metadata.json');
-const STATE_FILE = resolve(DATA_DIR, 'state.json');
+import type { LedgerEntry } from './ledger';
+import type { Logger } from './logger';
 
 /**
  * State lock manager to prevent concurrent state modifications
@@ -59,50 +57,95 @@ class StateLockManager {
   }
 }
 
-// Global state lock instance
-const stateLock = new StateLockManager();
+/**
+ * Per-token task phase
+ *
+ * scheduled → salt_obtained → create_sent → created → approve_sent → sell_sent → settled
+ * (any phase may end in failed)
+ */
+export type TaskPhase =
+  | 'scheduled'
+  | 'salt_obtained'
+  | 'create_sent'
+  | 'created'
+  | 'approve_sent'
+  | 'sell_sent'
+  | 'settled'
+  | 'failed';
 
 /**
- * Ensure data directory exists
+ * Phases where a task has started but not finished
  */
-function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
-}
+export const IN_FLIGHT_PHASES: readonly TaskPhase[] = [
+  'salt_obtained',
+  'create_sent',
+  'created',
+  'approve_sent',
+  'sell_sent',
+];
 
 /**
- * Save prepared tokens to JSON file
+ * A failed task that got a salt, so its create may have been sent (and landed)
+ * Recovery checks the chain for these; creating them afresh could launch a
+ * second token for the same index.
  */
-export function saveMetadata(tokens: PreparedToken[]): void {
-  ensureDataDir();
-  const data: PreparedTokensFile = {
-    tokens,
-    total_count: tokens.length,
-  };
-  writeFileSync(METADATA_FILE, JSON.stringify(data, null, 2), 'utf-8');
-  console.log(`Saved ${tokens.length} tokens to ${METADATA_FILE}`);
+export function createMayHaveLanded(task: TaskRecord): boolean {
+  return task.phase === 'failed' && task.tokensReceived === undefined && task.salt !== undefined;
 }
 
 /**
- * Load prepared tokens from JSON file
+ * Persisted per-token task (bigints stored as decimal strings)
  */
-export function loadMetadata(): PreparedToken[] {
-  if (!existsSync(METADATA_FILE)) {
-    throw new Error(
-      `Metadata file not found: ${METADATA_FILE}\n` +
-        'Run "npm run prepare-metadata" first to generate metadata.'
-    );
-  }
+export interface TaskRecord {
+  tokenIndex: number;
+  walletIndex: number;
+  metadata: PreparedToken;
+  phase: TaskPhase;
+  salt?: `0x${string}`;
+  tokenAddress?: `0x${string}`;
+  createHash?: `0x${string}`;
+  tokensReceived?: string;
+  sellAmount?: string;
+  approveHash?: `0x${string}`;
+  sellHash?: `0x${string}`;
+  error?: string;
+  updatedAt: number;
+}
 
-  const content = readFileSync(METADATA_FILE, 'utf-8');
-  const data = JSON.parse(content);
+/**
+ * Planned token creation (one slot of the schedule)
+ */
+export interface TokenTask {
+  tokenIndex: number;
+  walletIndex: number;
+  metadata: PreparedToken;
+  delayMs: number;
+  scheduledTime: number;
+}
 
-  // Support both old format (array) and new format (object with tokens + total_count)
-  const tokens = Array.isArray(data) ? data : data.tokens;
+/**
+ * Persisted schedule (generated once per run from the seed)
+ */
+export interface PersistedSchedule {
+  seed: string;
+  generatedAt: number;
+  tasks: TokenTask[];
+}
 
-  console.log(`Loaded ${tokens.length} tokens from ${METADATA_FILE}`);
-  return tokens;
+/**
+ * How often each prepared token was launched, keyed by tokenURI
+ * (kept across runs and state resets)
+ */
+export interface MetadataUsage {
+  entries: Record<
+    string,
+    {
+      symbol: string;
+      count: number;
+      lastUsedAt: number;
+      tokenAddresses: string[];
+    }
+  >;
 }
 
 /**
@@ -110,6 +153,8 @@ export function loadMetadata(): PreparedToken[] {
  */
 export interface BotState {
   tokensCreated: number;
+  /** Groups ledger entries; set with startTime */
+  runId?: string;
   startTime?: number;
   lastCreatedAt?: number;
   createdTokens: Array<{
@@ -118,56 +163,259 @@ export interface BotState {
     createdAt: number;
     walletIndex: number;
   }>;
+  /** Task records keyed by token index */
+  tasks: Record<string, TaskRecord>;
+  /** Full plan, so a resume continues it instead of reshuffling */
+  schedule?: PersistedSchedule;
+  /** MON (wei) sent by master top-ups this run, counted against TOPUP_BUDGET */
+  topUpSpent?: string;
+  /** Tasks dispatched to another wallet than planned (WALLET_SELECTION) */
+  reassignments?: WalletReassignment[];
 }
 
 /**
- * Load bot state
+ * A task given to another wallet at dispatch time (wallet derivation indices)
  */
-export function loadState(): BotState {
-  if (!existsSync(STATE_FILE)) {
-    return {
-      tokensCreated: 0,
-      createdTokens: [],
-    };
-  }
-
-  const content = readFileSync(STATE_FILE, 'utf-8');
-  return JSON.parse(content) as BotState;
+export interface WalletReassignment {
+  tokenIndex: number;
+  fromWalletIndex: number;
+  toWalletIndex: number;
+  strategy: string;
+  at: number;
 }
 
 /**
- * Save bot state (with lock to prevent concurrent writes)
+ * JSON file storage rooted at a data directory
  */
-export async function saveState(state: BotState): Promise<void> {
-  await stateLock.withLock(() => {
-    ensureDataDir();
-    writeFileSync(STATE_FILE, JSON.stringify(state, null, 2), 'utf-8');
-  });
-}
+export class Storage {
+  readonly metadataFile: string;
+  readonly metadataUsageFile: string;
+  readonly stateFile: string;
+  readonly dryRunReportFile: string;
+  readonly ledgerFile: string;
+  readonly controlFile: string;
 
-/**
- * Update state atomically with a function
- * Useful for concurrent modifications like incrementing counters
- */
-export async function updateState(
-  updater: (state: BotState) => void | Promise<void>
-): Promise<void> {
-  await stateLock.withLock(async () => {
-    const state = loadState();
-    await updater(state);
-    ensureDataDir();
-    writeFileSync(STATE_FILE, JSON.stringify(state, null, 2), 'utf-8');
-  });
-}
+  // State lock for this data directory
+  private stateLock = new StateLockManager();
+  private usageLock = new StateLockManager();
 
-/**
- * Reset bot state
- */
-export function resetState(): void {
-  const emptyState: BotState = {
-    tokensCreated: 0,
-    createdTokens: [],
-  };
-  saveState(emptyState);
-  console.log('Bot state reset');
+  constructor(
+    readonly dataDir: string,
+    private readonly log: Logger
+  ) {
+    this.metadataFile = resolve(dataDir, 'metadata.json');
+    this.metadataUsageFile = resolve(dataDir, 'metadata-usage.json');
+    this.stateFile = resolve(dataDir, 'state.json');
+    this.dryRunReportFile = resolve(dataDir, 'dry-run-report.json');
+    this.ledgerFile = resolve(dataDir, 'ledger.jsonl');
+    this.controlFile = resolve(dataDir, 'control');
+  }
+
+  /**
+   * Ensure data directory exists
+   */
+  private ensureDataDir(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Save prepared tokens to JSON file
+   */
+  saveMetadata(tokens: PreparedToken[]): void {
+    this.ensureDataDir();
+    const data: PreparedTokensFile = {
+      tokens,
+      total_count: tokens.length,
+    };
+    writeFileSync(this.metadataFile, JSON.stringify(data, null, 2), 'utf-8');
+    this.log.info(`Saved ${tokens.length} tokens to ${this.metadataFile}`);
+  }
+
+  /**
+   * Load prepared tokens from JSON file
+   */
+  loadMetadata(): PreparedToken[] {
+    if (!existsSync(this.metadataFile)) {
+      throw new Error(
+        `Metadata file not found: ${this.metadataFile}\n` +
+          'Run "npm run prepare-metadata" first to generate metadata.'
+      );
+    }
+
+    const content = readFileSync(this.metadataFile, 'utf-8');
+    const data = JSON.parse(content);
+
+    // Support both old format (array) and new format (object with tokens + total_count)
+    const tokens = Array.isArray(data) ? data : data.tokens;
+
+    this.log.info(`Loaded ${tokens.length} tokens from ${this.metadataFile}`);
+    return tokens;
+  }
+
+  /**
+   * Load metadata usage counts
+   */
+  loadMetadataUsage(): MetadataUsage {
+    if (!existsSync(this.metadataUsageFile)) {
+      return { entries: {} };
+    }
+
+    const content = readFileSync(this.metadataUsageFile, 'utf-8');
+    return JSON.parse(content) as MetadataUsage;
+  }
+
+  /**
+   * Count one launch of a prepared token
+   */
+  async recordMetadataUsage(metadata: PreparedToken, tokenAddress: string): Promise<void> {
+    await this.usageLock.withLock(() => {
+      const usage = this.loadMetadataUsage();
+      const entry = (usage.entries[metadata.tokenURI] ??= {
+        symbol: metadata.symbol,
+        count: 0,
+        lastUsedAt: 0,
+        tokenAddresses: [],
+      });
+      entry.count++;
+      entry.lastUsedAt = Date.now();
+      entry.tokenAddresses.push(tokenAddress);
+
+      this.ensureDataDir();
+      writeFileSync(this.metadataUsageFile, JSON.stringify(usage, null, 2), 'utf-8');
+    });
+  }
+
+  /**
+   * Load bot state
+   */
+  loadState(): BotState {
+    if (!existsSync(this.stateFile)) {
+      return {
+        tokensCreated: 0,
+        createdTokens: [],
+        tasks: {},
+      };
+    }
+
+    const content = readFileSync(this.stateFile, 'utf-8');
+    const state = JSON.parse(content) as BotState;
+
+    // State files written before task tracking have no tasks
+    state.tasks ??= {};
+    return state;
+  }
+
+  /**
+   * Save bot state (with lock to prevent concurrent writes)
+   */
+  async saveState(state: BotState): Promise<void> {
+    await this.stateLock.withLock(() => {
+      this.ensureDataDir();
+      writeFileSync(this.stateFile, JSON.stringify(state, null, 2), 'utf-8');
+    });
+  }
+
+  /**
+   * Update state atomically with a function
+   * Useful for concurrent modifications like incrementing counters
+   */
+  async updateState(
+    updater: (state: BotState) => void | Promise<void>
+  ): Promise<void> {
+    await this.stateLock.withLock(async () => {
+      const state = this.loadState();
+      await updater(state);
+      this.ensureDataDir();
+      writeFileSync(this.stateFile, JSON.stringify(state, null, 2), 'utf-8');
+    });
+  }
+
+  /**
+   * Start (or restart) a task record in the scheduled phase
+   */
+  async startTask(
+    tokenIndex: number,
+    walletIndex: number,
+    metadata: PreparedToken
+  ): Promise<TaskRecord> {
+    const task: TaskRecord = {
+      tokenIndex,
+      walletIndex,
+      metadata,
+      phase: 'scheduled',
+      updatedAt: Date.now(),
+    };
+    await this.updateState((state) => {
+      state.tasks[tokenIndex] = task;
+    });
+    return task;
+  }
+
+  /**
+   * Apply a patch to a task record and persist it
+   * Optional `onState` runs in the same atomic update, e.g. to bump counters
+   */
+  async updateTask(
+    tokenIndex: number,
+    patch: Partial<TaskRecord>,
+    onState?: (state: BotState, task: TaskRecord) => void
+  ): Promise<TaskRecord> {
+    let updated!: TaskRecord;
+    await this.updateState((state) => {
+      const current = state.tasks[tokenIndex];
+      if (!current) {
+        throw new Error(`No task record for token index ${tokenIndex}`);
+      }
+      updated = { ...current, ...patch, updatedAt: Date.now() };
+      state.tasks[tokenIndex] = updated;
+      onState?.(state, updated);
+    });
+    return updated;
+  }
+
+  /**
+   * Save dry-run report to JSON file
+   */
+  saveDryRunReport(report: unknown): string {
+    this.ensureDataDir();
+    writeFileSync(this.dryRunReportFile, JSON.stringify(report, null, 2), 'utf-8');
+    return this.dryRunReportFile;
+  }
+
+  /**
+   * Append one entry to the ledger (JSON lines)
+   */
+  appendLedger(entry: LedgerEntry): void {
+    this.ensureDataDir();
+    appendFileSync(this.ledgerFile, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  /**
+   * Load all ledger entries
+   */
+  loadLedger(): LedgerEntry[] {
+    if (!existsSync(this.ledgerFile)) {
+      return [];
+    }
+
+    return readFileSync(this.ledgerFile, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as LedgerEntry);
+  }
+
+  /**
+   * Reset bot state
+   */
+  async resetState(): Promise<void> {
+    const emptyState: BotState = {
+      tokensCreated: 0,
+      createdTokens: [],
+      tasks: {},
+    };
+    await this.saveState(emptyState);
+    this.log.info('Bot state reset');
+  }
 }
@@ -2,94 +2,472 @@
  * Token creation workflow
  */
 
-import { parseEther } from "viem";
-import { createToken, sellTokens } from "./contracts";
-import { config } from "../config";
-import { updateState } from "./storage";
+import { type TransactionReceipt, formatEther, parseEther } from "viem";
+import {
+  adaptToRouterError,
+  confirmCreateToken,
+  createdTokenAddress,
+  decodeCreateReceipt,
+  findReceipt,
+  getSaltAndAddress,
+  getTokenBalance,
+  isTokenDeployed,
+  sellTokens,
+  sendCreateToken,
+  simulateCreateToken,
+  simulateSellTokens,
+  type CreateOutcome,
+  type SellSimulation,
+} from "./contracts";
+import { applyBuy, initialReserves } from "./curve";
+import { classifyError, formatBotError } from "./errors";
+import { setLogContext, withLogContext } from "./logger";
+import type { RetryOperation } from "./metrics";
+import {
+  IN_FLIGHT_PHASES,
+  createMayHaveLanded,
+  type BotState,
+  type TaskRecord,
+} from "./storage";
+import { deriveWallet } from "./wallet";
+import type { BotContext } from "./context";
 import type { WalletInstance } from "./wallet";
 import type { PreparedToken } from "../types";
-import type { BotState } from "./storage";
 
 /**
  * Execute token creation (create + sell with retry on sell)
  */
 export async function executeTokenCreation(
+  ctx: BotContext,
   wallet: WalletInstance,
-  metadata: PreparedToken
+  metadata: PreparedToken,
+  tokenIndex: number
 ): Promise<void> {
-  console.log(`\n${"=".repeat(80)}`);
-  console.log(`Creating token: ${metadata.name} (${metadata.symbol})`);
-  console.log(`Wallet [${wallet.index}]: ${wallet.address}`);
-  console.log(`${"=".repeat(80)}\n`);
+  ctx.log.info(`\n${"=".repeat(80)}`);
+  ctx.log.info(`Creating token: ${metadata.name} (${metadata.symbol})`);
+  ctx.log.info(`Wallet [${wallet.index}]: ${wallet.address}`);
+  ctx.log.info(`${"=".repeat(80)}\n`);
 
-  const initialBuyAmount = parseEther(config.initialBuyAmount);
+  const { config } = ctx;
 
-  // Create token (no retry - if fails, skip to next)
-  const { tokenAddress, tokensReceived } = await createToken(
-    wallet,
-    {
-      name: metadata.name,
+  if (config.dryRun) {
+    const initialBuyAmount = parseEther(config.initialBuyAmount);
+    await simulateTokenCreation(ctx, wallet, metadata, initialBuyAmount);
+    return;
+  }
+
+  const task = await ctx.storage.startTask(tokenIndex, wallet.index, metadata);
+  setLogContext({ phase: task.phase });
+  await advanceTask(ctx, wallet, task, false);
+
+  ctx.log.info(`\n✅ Token workflow completed!\n`);
+}
+
+/**
+ * Finish every task left in-flight by a previous run, and failed tasks whose
+ * create may have landed (reconciles persisted phases against receipts, code
+ * and balances; a token that was created is sold)
+ */
+export async function recoverTasks(ctx: BotContext): Promise<void> {
+  const state = ctx.storage.loadState();
+  const inFlight = Object.values(state.tasks).filter(
+    (task) => IN_FLIGHT_PHASES.includes(task.phase) || createMayHaveLanded(task)
+  );
+
+  if (inFlight.length === 0) return;
+
+  ctx.log.info(`\n🔁 Recovering ${inFlight.length} in-flight task(s) from previous run...`);
+
+  for (let task of inFlight) {
+    const wallet = deriveWallet(ctx, task.walletIndex);
+    const fields = {
+      tokenIndex: task.tokenIndex,
+      walletIndex: task.walletIndex,
+      wallet: wallet.address,
+      symbol: task.metadata.symbol,
+      phase: task.phase,
+    };
+
+    await withLogContext(fields, async () => {
+      ctx.log.info(
+        `\n  Token ${task.tokenIndex + 1} (${task.metadata.symbol}) was in phase "${task.phase}"`
+      );
+
+      try {
+        // Back to the create phase it reached (the salt is reused, so a create
+        // that did not land cannot deploy a second token)
+        if (task.phase === "failed") {
+          task = await updateTask(ctx, task.tokenIndex, {
+            phase: task.createHash ? "create_sent" : "salt_obtained",
+            error: undefined,
+          });
+        }
+        await advanceTask(ctx, wallet, task, true);
+        ctx.log.info(`  ✅ Token ${task.tokenIndex + 1} recovered`);
+      } catch (error) {
+        ctx.metrics.tokenFailed();
+        ctx.log.error(
+          `  ❌ Token ${task.tokenIndex + 1} recovery failed: ${formatBotError(classifyError(error))}`
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Persist a task update (a new phase is also tagged on later log lines)
+ */
+function updateTask(
+  ctx: BotContext,
+  tokenIndex: number,
+  patch: Partial<TaskRecord>,
+  onState?: (state: BotState, task: TaskRecord) => void
+): Promise<TaskRecord> {
+  if (patch.phase) {
+    setLogContext({ phase: patch.phase });
+    ctx.log.debug(`Phase: ${patch.phase}`);
+  }
+  return ctx.storage.updateTask(tokenIndex, patch, onState);
+}
+
+/**
+ * Drive a task from its persisted phase to settled (or failed)
+ * Each phase is persisted before the next transaction goes out.
+ */
+async function advanceTask(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  task: TaskRecord,
+  recovering: boolean
+): Promise<TaskRecord> {
+  try {
+    if (
+      task.phase === "scheduled" ||
+      task.phase === "salt_obtained" ||
+      task.phase === "create_sent"
+    ) {
+      task = await runCreate(ctx, wallet, task);
+    }
+
+    return await runSell(ctx, wallet, task, recovering);
+  } catch (error) {
+    await updateTask(ctx, task.tokenIndex, {
+      phase: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * scheduled → salt_obtained → create_sent → created
+ */
+async function runCreate(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  task: TaskRecord
+): Promise<TaskRecord> {
+  const { metadata } = task;
+  const initialBuyAmount = parseEther(ctx.config.initialBuyAmount);
+
+  if (task.phase === "scheduled") {
+    const { salt, address } = await getSaltAndAddress(ctx, wallet.address, metadata);
+    task = await updateTask(ctx, task.tokenIndex, {
+      phase: "salt_obtained",
+      salt,
+      tokenAddress: address,
+    });
+  }
+
+  const salt = { salt: task.salt!, address: task.tokenAddress! };
+
+  // Under the token the create deployed (normally the predicted one)
+  const recordCreate = async (receipt: TransactionReceipt) => {
+    await ctx.ledger.record(wallet, receipt, {
+      kind: "create",
+      runId: ctx.storage.loadState().runId,
+      tokenIndex: task.tokenIndex,
+      tokenAddress: createdTokenAddress(ctx, receipt) ?? salt.address,
       symbol: metadata.symbol,
-      tokenURI: metadata.tokenURI,
+    });
+  };
+
+  let createReceipt: TransactionReceipt | null = null;
+  if (task.phase === "create_sent" && task.createHash) {
+    createReceipt = await findReceipt(wallet, task.createHash);
+    if (createReceipt) await recordCreate(createReceipt);
+    if (createReceipt?.status === "reverted") {
+      // Nothing was deployed: the create is quoted and sent again below
+      ctx.log.warn(`  ⚠️  Earlier create reverted (${task.createHash}), sending it again`);
+      createReceipt = null;
+    }
+  }
+
+  let created: CreateOutcome;
+  if (createReceipt || (await isTokenDeployed(wallet, salt.address))) {
+    // Create landed before a crash (without a recorded hash: read the balance)
+    created = createReceipt
+      ? await decodeCreateReceipt(ctx, wallet, salt.address, createReceipt)
+      : { tokenAddress: salt.address, tokensReceived: await getTokenBalance(wallet, salt.address) };
+    ctx.log.info(`  Token already deployed: ${created.tokenAddress}`);
+  } else {
+    await ctx.funding.preflight(wallet, deriveWallet(ctx, 0));
+
+    // Reusing the salt means a still-pending earlier create cannot double-deploy,
+    // and a create the router rejected can be re-quoted and resent
+    let widenBps = 0;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const hash = await sendCreateToken(ctx, wallet, metadata, salt, initialBuyAmount, widenBps);
+        task = await updateTask(ctx, task.tokenIndex, {
+          phase: "create_sent",
+          createHash: hash,
+        });
+        created = await confirmCreateToken(
+          ctx,
+          wallet,
+          salt.address,
+          hash,
+          recordCreate,
+          async (replacement) => {
+            task = await updateTask(ctx, task.tokenIndex, { createHash: replacement });
+          }
+        );
+        break;
+      } catch (error) {
+        const next = adaptToRouterError(ctx, error, widenBps);
+        if (next === null || attempt >= ctx.config.maxRetries) throw error;
+        ctx.metrics.retry("create");
+        ctx.log.info(`  Retrying create (attempt ${attempt + 1}/${ctx.config.maxRetries})...`);
+        widenBps = next;
+      }
+    }
+  }
+
+  const { tokenAddress, tokensReceived } = created;
+  const sellAmount =
+    (tokensReceived * BigInt(ctx.config.sellPercentage)) / BigInt(100);
+
+  // Record creation and bump counters in one atomic update
+  task = await updateTask(
+    ctx,
+    task.tokenIndex,
+    {
+      phase: "created",
+      tokenAddress,
+      tokensReceived: tokensReceived.toString(),
+      sellAmount: sellAmount.toString(),
     },
-    initialBuyAmount
+    (state) => {
+      state.tokensCreated++;
+      state.lastCreatedAt = Date.now();
+      state.createdTokens.push({
+        tokenAddress,
+        metadata,
+        createdAt: Date.now(),
+        walletIndex: wallet.index,
+      });
+    }
   );
+  await ctx.storage.recordMetadataUsage(metadata, tokenAddress);
 
-  // Update state immediately after successful creation (atomic operation)
-  await updateState((state) => {
-    state.tokensCreated++;
-    state.lastCreatedAt = Date.now();
-    state.createdTokens.push({
-      tokenAddress,
-      metadata,
-      createdAt: Date.now(),
-      walletIndex: wallet.index,
-    });
+  ctx.metrics.tokenCreated(task.tokenIndex);
+  ctx.notifier.notify({
+    type: "token-created",
+    tokenIndex: task.tokenIndex,
+    symbol: metadata.symbol,
+    tokenAddress,
+    txHash: task.createHash,
   });
+  ctx.log.info(`✅ Token created and saved to state`);
+  return task;
+}
 
-  console.log(`✅ Token created and saved to state`);
+/**
+ * created → approve_sent → sell_sent → settled
+ */
+async function runSell(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  task: TaskRecord,
+  recovering: boolean
+): Promise<TaskRecord> {
+  const { config } = ctx;
+  const tokenAddress = task.tokenAddress!;
+  let amount = BigInt(task.sellAmount ?? "0");
+  const ledgerDetails = {
+    runId: ctx.storage.loadState().runId,
+    tokenIndex: task.tokenIndex,
+    tokenAddress,
+    symbol: task.metadata.symbol,
+  };
 
-  // Sell tokens if configured (WITH RETRY - must succeed to ensure wallet only has MON)
-  if (config.sellPercentage > 0) {
-    const sellAmount =
-      (tokensReceived * BigInt(config.sellPercentage)) / BigInt(100);
+  if (amount > 0n && task.phase === "sell_sent" && task.sellHash) {
+    const receipt = await findReceipt(wallet, task.sellHash);
+    if (receipt) {
+      await ctx.ledger.record(wallet, receipt, { kind: "sell", ...ledgerDetails });
+    }
+    if (receipt?.status === "success") amount = 0n;
+  } else if (amount > 0n && task.phase === "approve_sent" && task.approveHash) {
+    // Let the approve land so sellTokens sees the allowance
+    const receipt = await findReceipt(wallet, task.approveHash);
+    if (receipt) {
+      await ctx.ledger.record(wallet, receipt, { kind: "approve", ...ledgerDetails });
+    }
+  }
+
+  if (amount > 0n && recovering) {
+    // Never sell more than the wallet still holds
+    const balance = await getTokenBalance(wallet, tokenAddress);
+    if (balance < amount) amount = balance;
+  }
 
-    console.log(`\nSelling ${config.sellPercentage}% of tokens...`);
+  // Sell tokens if configured (WITH RETRY - must succeed to ensure wallet only has MON)
+  if (amount > 0n) {
+    ctx.log.info(`\nSelling ${config.sellPercentage}% of tokens...`);
 
+    // Router reverts adapt the next attempt (re-quote / wider slippage)
+    let widenBps = 0;
     await withRetry(
-      () => sellTokens(wallet, tokenAddress, sellAmount),
-      `Sell tokens for ${metadata.symbol}`,
+      ctx,
+      "sell",
+      () =>
+        sellTokens(ctx, wallet, tokenAddress, amount, {
+          onApproveSent: async (hash) => {
+            task = await updateTask(ctx, task.tokenIndex, {
+              phase: "approve_sent",
+              approveHash: hash,
+            });
+          },
+          onApproveMined: async (receipt) => {
+            await ctx.ledger.record(wallet, receipt, { kind: "approve", ...ledgerDetails });
+          },
+          onSellSent: async (hash) => {
+            task = await updateTask(ctx, task.tokenIndex, {
+              phase: "sell_sent",
+              sellHash: hash,
+            });
+          },
+          onSellMined: async (receipt, expectedMon) => {
+            await ctx.ledger.record(wallet, receipt, {
+              kind: "sell",
+              ...ledgerDetails,
+              quotedMonIn: expectedMon,
+            });
+          },
+        }, widenBps).catch((error) => {
+          widenBps = adaptToRouterError(ctx, error, widenBps) ?? widenBps;
+          throw error;
+        }),
+      `Sell tokens for ${task.metadata.symbol}`,
       config.maxRetries,
       config.retryDelayMs
+    ).catch((error) => {
+      ctx.notifier.notify({
+        type: "sell-failed",
+        tokenIndex: task.tokenIndex,
+        symbol: task.metadata.symbol,
+        tokenAddress,
+        error: formatBotError(classifyError(error)),
+      });
+      throw error;
+    });
+    ctx.metrics.sellCompleted(task.tokenIndex);
+  }
+
+  return updateTask(ctx, task.tokenIndex, { phase: "settled" });
+}
+
+/**
+ * Dry run: quote + simulate create, approve and sell, record the outcome
+ * (nothing is broadcast and state.json is left untouched)
+ */
+async function simulateTokenCreation(
+  ctx: BotContext,
+  wallet: WalletInstance,
+  metadata: PreparedToken,
+  initialBuyAmount: bigint
+): Promise<void> {
+  const { config } = ctx;
+  const create = await simulateCreateToken(
+    ctx,
+    wallet,
+    {
+      name: metadata.name,
+      symbol: metadata.symbol,
+      tokenURI: metadata.tokenURI,
+    },
+    initialBuyAmount
+  );
+
+  ctx.log.info(`🧪 [DRY RUN] Create ${metadata.symbol}`);
+  ctx.log.info(`  Token address: ${create.tokenAddress}`);
+  ctx.log.info(`  Total value: ${formatEther(create.totalValue)} MON`);
+  ctx.log.info(`  Expected tokens: ${formatEther(create.expectedTokens)}`);
+  ctx.log.info(`  Min tokens: ${formatEther(create.minTokens)}`);
+  ctx.log.info(
+    create.error
+      ? `  ❌ Create simulation failed: ${create.error}`
+      : `  ✅ Create simulation passed`
+  );
+
+  let sell: { amount: bigint; result: SellSimulation } | undefined;
+  if (config.sellPercentage > 0) {
+    const amount =
+      (create.expectedTokens * BigInt(config.sellPercentage)) / BigInt(100);
+    const result = await simulateSellTokens(
+      ctx,
+      wallet,
+      create.tokenAddress,
+      amount,
+      applyBuy(initialReserves(), initialBuyAmount)
     );
+    sell = { amount, result };
+
+    ctx.log.info(`🧪 [DRY RUN] Sell ${config.sellPercentage}%: ${formatEther(amount)}`);
+    ctx.log.info(`  Expected MON (${result.quoteSource}): ${formatEther(result.expectedMon)}`);
+    ctx.log.info(`  Min MON: ${formatEther(result.minMon)}`);
+    if (result.approveError) ctx.log.warn(`  ⚠️  Approve simulation: ${result.approveError}`);
+    if (result.sellError) ctx.log.warn(`  ⚠️  Sell simulation: ${result.sellError}`);
   }
 
-  console.log(`\n✅ Token workflow completed!\n`);
+  const entry = await ctx.dryRun.record(wallet, metadata, create, sell);
+  ctx.log.info(`  MON spent (projected): ${entry.monSpent}`);
 }
 
 /**
- * Retry wrapper
+ * Retry wrapper (errors classified as not retryable fail at once)
  */
 export async function withRetry<T>(
+  ctx: BotContext,
+  operation: RetryOperation,
   fn: () => Promise<T>,
   taskName: string,
-  maxRetries: number = config.maxRetries,
-  retryDelay: number = config.retryDelayMs
+  maxRetries: number,
+  retryDelay: number
 ): Promise<T> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       return await fn();
     } catch (error) {
-      console.error(`\n❌ Failed to ${taskName} (attempt ${attempt}/${maxRetries}):`);
-      console.error(error instanceof Error ? error.stack || error.message : error);
+      const classified = classifyError(error);
+      ctx.log.error(
+        `\n❌ Failed to ${taskName} (attempt ${attempt}/${maxRetries}): ${formatBotError(classified)}`
+      );
 
+      if (!classified.retryable) {
+        // Cause kept so callers classify the original error
+        throw new Error(`${taskName} failed: ${classified.message}`, { cause: error });
+      }
       if (attempt < maxRetries) {
         const delay = retryDelay * attempt;
-        console.log(`   Retrying in ${delay}ms...\n`);
+        ctx.metrics.retry(operation);
+        ctx.log.info(`   Retrying in ${delay}ms...\n`);
         await new Promise((resolve) => setTimeout(resolve, delay));
       } else {
-        const finalError = error instanceof Error ? error : new Error(String(error));
-        throw new Error(`${taskName} failed after ${maxRetries} attempts: ${finalError.message}`);
+        throw new Error(`${taskName} failed after ${maxRetries} attempts: ${classified.message}`, {
+          cause: error,
+        });
       }
     }
   }
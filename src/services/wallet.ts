@@ -2,25 +2,17 @@
  * Wallet management service using viem
  */
 
-import { createWalletClient, createPublicClient, http, type Address, type Hash, parseEther, formatEther } from 'viem';
+import {
+  createWalletClient,
+  type Address,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from 'viem';
 import { mnemonicToAccount } from 'viem/accounts';
-import { config } from '../config';
-
-// Custom chain definition for Monad
-const monadChain = {
-  id: config.network.chainId,
-  name: config.networkMode === 'mainnet' ? 'Monad Mainnet' : 'Monad Testnet',
-  network: config.networkMode,
-  nativeCurrency: {
-    name: 'Monad',
-    symbol: 'MON',
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: { http: [config.network.rpcUrl] },
-    public: { http: [config.network.rpcUrl] },
-  },
-} as const;
+import type { BotContext } from './context';
+import { NonceManager, type SendOptions } from './nonceManager';
+import type { Logger } from './logger';
 
 /**
  * Wallet instance (simple wrapper)
@@ -29,45 +21,47 @@ export interface WalletInstance {
   address: Address;
   index: number;
   account: ReturnType<typeof mnemonicToAccount>;
-  publicClient: ReturnType<typeof createPublicClient>;
-  walletClient: ReturnType<typeof createWalletClient>;
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  /** Sends every transaction of this address (local nonces, stuck-tx rebroadcast) */
+  nonces: NonceManager;
+  log: Logger;
 }
 
 /**
- * Derive wallet from mnemonic at specific index
+ * Derive wallet from the context mnemonic at specific index
  */
-export function deriveWallet(mnemonic: string, index: number): WalletInstance {
-  const account = mnemonicToAccount(mnemonic, { addressIndex: index });
-
-  const publicClient = createPublicClient({
-    chain: monadChain,
-    transport: http(config.network.rpcUrl, {
-      timeout: 60_000, // 60 seconds
-    }),
-  });
+export function deriveWallet(ctx: BotContext, index: number): WalletInstance {
+  const account = mnemonicToAccount(ctx.config.mnemonic, { addressIndex: index });
 
   const walletClient = createWalletClient({
     account,
-    chain: monadChain,
-    transport: http(config.network.rpcUrl, {
-      timeout: 60_000, // 60 seconds
-    }),
+    chain: ctx.chain,
+    transport: ctx.transport,
   });
 
+  let nonces = ctx.nonceManagers.get(account.address);
+  if (!nonces) {
+    nonces = new NonceManager(account, ctx.publicClient, walletClient, ctx.fees, ctx.limits, ctx.log);
+    ctx.nonceManagers.set(account.address, nonces);
+  }
+
   return {
     address: account.address,
     index,
     account,
-    publicClient,
+    publicClient: ctx.publicClient,
     walletClient,
+    nonces,
+    log: ctx.log,
   };
 }
 
 /**
  * Derive multiple wallets
  */
-export function deriveWallets(mnemonic: string, count: number): WalletInstance[] {
-  return Array.from({ length: count }, (_, i) => deriveWallet(mnemonic, i));
+export function deriveWallets(ctx: BotContext, count: number): WalletInstance[] {
+  return Array.from({ length: count }, (_, i) => deriveWallet(ctx, i));
 }
 
 /**
@@ -78,21 +72,17 @@ export async function getBalance(wallet: WalletInstance): Promise<bigint> {
 }
 
 /**
- * Send native token (MON)
+ * Send native token (MON) to another of the bot's wallets and wait for it to
+ * mine; fees come from the fee strategy unless given
  */
 export async function sendNative(
   fromWallet: WalletInstance,
   to: Address,
-  amount: bigint
-): Promise<Hash> {
-  // Let viem handle gas estimation automatically
-  const hash = await fromWallet.walletClient.sendTransaction({
-    account: fromWallet.account,
-    to,
-    value: amount,
-    chain: monadChain,
-  });
+  amount: bigint,
+  options: Omit<SendOptions, 'internal'> = {}
+): Promise<TransactionReceipt> {
+  const hash = await fromWallet.nonces.send({ to, value: amount }, { ...options, internal: true });
 
-  await fromWallet.publicClient.waitForTransactionReceipt({ hash });
-  return hash;
+  // A stuck transfer is rebroadcast under a new hash (the receipt has the final one)
+  return fromWallet.nonces.waitForReceipt(hash);
 }
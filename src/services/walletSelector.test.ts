@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { parseEther } from 'viem';
+import { createTestBot, type TestBot } from '../testing';
+import type { TokenTask } from './storage';
+import { deriveWallets, type WalletInstance } from './wallet';
+import { WalletSelector } from './walletSelector';
+
+function task(walletIndex: number): TokenTask {
+  return {
+    tokenIndex: 0,
+    walletIndex,
+    metadata: {
+      name: 'Test',
+      symbol: 'TEST',
+      tokenURI: 'https://example.com/test.json',
+      description: '',
+      imageUri: 'https://example.com/test.png',
+    },
+    delayMs: 0,
+    scheduledTime: 0,
+  };
+}
+
+describe('WalletSelector', () => {
+  let bot: TestBot;
+  let wallets: WalletInstance[];
+
+  async function setup(balances = ['100', '100', '100', '100']) {
+    bot = await createTestBot({}, balances);
+    wallets = deriveWallets(bot.ctx, balances.length).slice(1);
+  }
+
+  const indices = (picked: Array<WalletInstance | undefined>) => picked.map((w) => w?.index);
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('planned: uses the scheduled wallet and waits while it is busy', async () => {
+    await setup();
+    const selector = new WalletSelector(wallets, 'planned');
+    assert.equal((await selector.select(task(1), new Set()))?.index, 2);
+    assert.equal(await selector.select(task(1), new Set([2])), undefined);
+  });
+
+  it('lru: rotates through the free wallets', async () => {
+    await setup();
+    const selector = new WalletSelector(wallets, 'lru');
+    const picked = [];
+    for (let i = 0; i < 4; i++) picked.push(await selector.select(task(0), new Set()));
+    assert.deepEqual(indices(picked), [1, 2, 3, 1]);
+    assert.equal((await selector.select(task(0), new Set([2])))?.index, 3);
+  });
+
+  it('most-funded: picks the free wallet with the highest balance', async () => {
+    await setup(['100', '5', '50', '20']);
+    const selector = new WalletSelector(wallets, 'most-funded');
+    assert.equal((await selector.select(task(0), new Set()))?.index, 2);
+    assert.equal((await selector.select(task(0), new Set([2])))?.index, 3);
+
+    bot.chain.setBalance(wallets[0]!.address, parseEther('80'));
+    assert.equal((await selector.select(task(0), new Set()))?.index, 1);
+  });
+
+  it('health: sits out a wallet that just failed while a healthy one is free', async () => {
+    await setup();
+    const selector = new WalletSelector(wallets, 'health');
+    selector.record(wallets[0]!, true);
+    selector.record(wallets[1]!, false);
+    selector.record(wallets[2]!, true);
+    selector.record(wallets[2]!, true);
+
+    assert.equal((await selector.select(task(0), new Set()))?.index, 3);
+    assert.equal((await selector.select(task(0), new Set([3])))?.index, 1);
+    // Only the failed wallet is free
+    assert.equal((await selector.select(task(0), new Set([1, 3])))?.index, undefined);
+
+    // Every wallet cooling down: the best of them still runs
+    selector.record(wallets[0]!, false);
+    selector.record(wallets[2]!, false);
+    assert.equal((await selector.select(task(0), new Set()))?.index, 3);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Wallet selection at dispatch time (WALLET_SELECTION)
+ *
+ * - planned:     the wallet the schedule assigned (waits while it is busy)
+ * - lru:         the free wallet used least recently
+ * - most-funded: the free wallet with the highest balance
+ * - health:      the free wallet with the best success rate; wallets whose
+ *                last task failed within WALLET_ERROR_COOLDOWN sit out while
+ *                a healthy wallet exists
+ *
+ * Busy wallets (running a task) are never picked.
+ */
+
+import type { BotConfig } from '../config';
+import { TIMING } from '../config/constants';
+import type { TokenTask } from './storage';
+import { getBalance, type WalletInstance } from './wallet';
+
+export type WalletSelection = BotConfig['walletSelection'];
+
+interface WalletHealth {
+  successes: number;
+  failures: number;
+  lastFailureAt?: number;
+}
+
+export class WalletSelector {
+  // Selection order, not time: picks within one millisecond still rotate
+  private lastUsed = new Map<number, number>();
+  private selections = 0;
+  private health = new Map<number, WalletHealth>();
+
+  constructor(
+    private readonly wallets: WalletInstance[],
+    readonly strategy: WalletSelection
+  ) {}
+
+  /**
+   * Wallet the schedule assigned to a task
+   */
+  planned(task: TokenTask): WalletInstance {
+    return this.wallets[task.walletIndex % this.wallets.length]!;
+  }
+
+  /**
+   * Pick a wallet for a due task (undefined: wait for one to free up)
+   */
+  async select(task: TokenTask, busy: Set<number>): Promise<WalletInstance | undefined> {
+    const free = this.wallets.filter((wallet) => !busy.has(wallet.index));
+    let wallet: WalletInstance | undefined;
+
+    switch (this.strategy) {
+      case 'planned': {
+        const planned = this.planned(task);
+        wallet = busy.has(planned.index) ? undefined : planned;
+        break;
+      }
+      case 'lru':
+        wallet = this.leastRecentlyUsed(free)[0];
+        break;
+      case 'most-funded': {
+        const balances = await Promise.all(
+          free.map((w) => getBalance(w).catch(() => -1n))
+        );
+        const ranked = this.leastRecentlyUsed(free);
+        wallet = ranked.reduce<WalletInstance | undefined>((best, w) => {
+          if (!best) return w;
+          return balances[free.indexOf(w)]! > balances[free.indexOf(best)]! ? w : best;
+        }, undefined);
+        break;
+      }
+      case 'health': {
+        const now = Date.now();
+        const cooling = (w: WalletInstance) => {
+          const at = this.health.get(w.index)?.lastFailureAt;
+          return at !== undefined && now - at < TIMING.WALLET_ERROR_COOLDOWN;
+        };
+        // With every wallet cooling down, the best of them is still used
+        const candidates = this.wallets.some((w) => !cooling(w))
+          ? free.filter((w) => !cooling(w))
+          : free;
+        const ranked = this.leastRecentlyUsed(candidates);
+        wallet = ranked.reduce<WalletInstance | undefined>(
+          (best, w) => (!best || this.score(w) > this.score(best) ? w : best),
+          undefined
+        );
+        break;
+      }
+    }
+
+    if (wallet) this.lastUsed.set(wallet.index, ++this.selections);
+    return wallet;
+  }
+
+  /**
+   * Outcome of a task the wallet ran
+   */
+  record(wallet: WalletInstance, succeeded: boolean): void {
+    const health = this.health.get(wallet.index) ?? { successes: 0, failures: 0 };
+    if (succeeded) {
+      health.successes++;
+    } else {
+      health.failures++;
+      health.lastFailureAt = Date.now();
+    }
+    this.health.set(wallet.index, health);
+  }
+
+  private leastRecentlyUsed(wallets: WalletInstance[]): WalletInstance[] {
+    const used = (w: WalletInstance) => this.lastUsed.get(w.index) ?? -Infinity;
+    return [...wallets].sort((a, b) => used(a) - used(b) || a.index - b.index);
+  }
+
+  // Success rate, with one success and one failure assumed up front
+  private score(wallet: WalletInstance): number {
+    const { successes, failures } = this.health.get(wallet.index) ?? { successes: 0, failures: 0 };
+    return (successes + 1) / (successes + failures + 2);
+  }
+}
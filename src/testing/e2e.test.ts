@@ -0,0 +1,112 @@
+/**
+ * End to end on the mocks: prepare metadata, run the schedule, sell
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { getAddress, type Address } from 'viem';
+import { fetchAndPrepareTokens } from '../services/metadata';
+import { runScheduler } from '../services/scheduler';
+import { deriveWallet, deriveWallets } from '../services/wallet';
+import { createTestBot, type TestBot } from './harness';
+
+describe('token creation run', () => {
+  let bot: TestBot;
+
+  beforeEach(async () => {
+    bot = await createTestBot({ EXECUTION_MODE: 'parallel' });
+  });
+
+  afterEach(async () => {
+    await bot.close();
+  });
+
+  it('prepares metadata, creates every token and sells the configured share', async () => {
+    const { ctx, chain } = bot;
+    const tokens = await fetchAndPrepareTokens(ctx, 1, 3);
+    assert.equal(tokens.length, 3);
+    ctx.storage.saveMetadata(tokens);
+
+    await runScheduler(ctx);
+
+    const state = ctx.storage.loadState();
+    assert.equal(state.tokensCreated, 2);
+    assert.equal(state.createdTokens.length, 2);
+    assert.deepEqual(
+      Object.values(state.tasks).map((task) => task.phase),
+      ['settled', 'settled']
+    );
+
+    // SELL_PERCENTAGE defaults to 100: nothing is left in the creators' wallets
+    const wallets = deriveWallets(ctx, 3).slice(1);
+    for (const created of state.createdTokens) {
+      const token = created.tokenAddress as Address;
+      assert.ok(chain.getToken(token), `${token} deployed`);
+      for (const wallet of wallets) {
+        assert.equal(chain.getTokenBalance(token, wallet.address), 0n);
+      }
+    }
+  });
+
+  it('resumes without creating tokens twice', async () => {
+    const { ctx } = bot;
+    ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 3));
+
+    await runScheduler(ctx);
+    await runScheduler(ctx);
+
+    assert.equal(ctx.storage.loadState().tokensCreated, 2);
+  });
+
+  it('recovers a token whose create landed after the task failed', async () => {
+    const { ctx } = bot;
+    ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 3));
+
+    // Token 1 (wallet 1): the create mines, then the receipt wait fails
+    const nonces = deriveWallet(ctx, 1).nonces;
+    const waitForReceipt = nonces.waitForReceipt.bind(nonces);
+    nonces.waitForReceipt = async (hash, onReplaced) => {
+      nonces.waitForReceipt = waitForReceipt;
+      await waitForReceipt(hash, onReplaced);
+      throw new Error('receipt lost');
+    };
+
+    await runScheduler(ctx);
+    const failed = ctx.storage.loadState().tasks[0]!;
+    assert.equal(failed.phase, 'failed');
+    assert.ok(failed.createHash);
+
+    await runScheduler(ctx);
+    const state = ctx.storage.loadState();
+    assert.equal(state.tokensCreated, 2);
+    assert.equal(state.tasks[0]!.phase, 'settled');
+    assert.equal(state.tasks[0]!.tokenAddress, failed.tokenAddress);
+
+    const ledger = ctx.storage.loadLedger();
+    const creates = ledger.filter((entry) => entry.kind === 'create' && entry.tokenIndex === 0);
+    assert.deepEqual(creates.map((entry) => entry.txHash), [failed.createHash]);
+    assert.ok(ledger.some((entry) => entry.kind === 'sell' && entry.tokenIndex === 0));
+  });
+
+  it('sells what the creator holds when the create receipt has no CurveCreate', async () => {
+    const { ctx, chain } = bot;
+    ctx.storage.saveMetadata(await fetchAndPrepareTokens(ctx, 1, 3));
+
+    // Wallet 1's create receipt comes back without the curve's events
+    const wallet = deriveWallet(ctx, 1);
+    const curve = getAddress(ctx.addresses.BONDING_CURVE);
+    const waitForReceipt = wallet.nonces.waitForReceipt.bind(wallet.nonces);
+    wallet.nonces.waitForReceipt = async (hash, onReplaced) => {
+      wallet.nonces.waitForReceipt = waitForReceipt;
+      const receipt = await waitForReceipt(hash, onReplaced);
+      return { ...receipt, logs: receipt.logs.filter((log) => getAddress(log.address) !== curve) };
+    };
+
+    await runScheduler(ctx);
+
+    const task = ctx.storage.loadState().tasks[0]!;
+    assert.equal(task.phase, 'settled');
+    assert.ok(BigInt(task.tokensReceived!) > 0n);
+    assert.equal(chain.getTokenBalance(task.tokenAddress!, wallet.address), 0n);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Bot context on the mocks: mock chain, mock NAD API, temporary data dir
+ *
+ * Worker wallets (and the master, index 0) start with 100 MON unless
+ * `balances` says otherwise.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseEther } from 'viem';
+import { mnemonicToAccount } from 'viem/accounts';
+import { parseConfig } from '../config';
+import { TIMING } from '../config/constants';
+import { createBotContext, type BotContext } from '../services/context';
+import { MockChain } from './mockChain';
+import { MockNadApi } from './mockNadApi';
+
+export const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+
+export interface TestBot {
+  ctx: BotContext;
+  chain: MockChain;
+  api: MockNadApi;
+  dataDir: string;
+  /** Stop the mock API and delete the data dir */
+  close(): Promise<void>;
+}
+
+export async function createTestBot(
+  env: Record<string, string> = {},
+  balances: string[] = ['100', '100', '100']
+): Promise<TestBot> {
+  const api = new MockNadApi();
+  const base = await api.start();
+  const dataDir = mkdtempSync(join(tmpdir(), 'token-bot-test-'));
+
+  const config = parseConfig({
+    NETWORK_MODE: 'mainnet',
+    MAINNET_RPC_URL: 'http://mock',
+    MAINNET_CHAIN_ID: '143',
+    MAINNET_METADATA_API_BASE_URL: base,
+    TOKEN_LIST_API_BASE_URL: base,
+    MNEMONIC: TEST_MNEMONIC,
+    NUM_WALLETS: String(balances.length - 1),
+    TOTAL_TOKENS_TO_CREATE: '2',
+    DURATION_HOURS: '0.0001',
+    INITIAL_BUY_AMOUNT: '1',
+    RETRY_DELAY_MS: '10',
+    DATA_DIR: dataDir,
+    LOG_DIR: '',
+    LOG_LEVEL: 'error',
+    ...env,
+  });
+
+  const chain = new MockChain({ chainId: config.network.chainId });
+  balances.forEach((balance, i) => {
+    chain.setBalance(mnemonicToAccount(TEST_MNEMONIC, { addressIndex: i }).address, parseEther(balance));
+  });
+
+  return {
+    ctx: createBotContext(config, { transport: chain.transport }),
+    chain,
+    api,
+    dataDir,
+    async close() {
+      await api.stop();
+      rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Run `fn` with some TIMING constants shortened (restored afterwards)
+ */
+export async function withTiming<T>(
+  overrides: Partial<Record<keyof typeof TIMING, number>>,
+  fn: () => Promise<T>
+): Promise<T> {
+  const timing = TIMING as Record<keyof typeof TIMING, number>;
+  const saved = { ...timing };
+  Object.assign(timing, overrides);
+  try {
+    return await fn();
+  } finally {
+    Object.assign(timing, saved);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Test harness: mock chain transport + mock NAD API + mock notification receiver
+ */
+
+export { MockChain, predictTokenAddress } from './mockChain';
+export type { MockChainOptions, MockToken } from './mockChain';
+export { MockNadApi, defaultSourceTokens } from './mockNadApi';
+export type { MockApiRequest, MockSourceToken } from './mockNadApi';
+export { MockWebhookReceiver } from './mockWebhook';
+export type { MockWebhookRequest } from './mockWebhook';
+export { TEST_MNEMONIC, createTestBot, withTiming } from './harness';
+export type { TestBot } from './harness';
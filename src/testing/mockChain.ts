@@ -0,0 +1,1061 @@
+/**
+ * In-process mock chain (EIP-1193 transport) for end-to-end tests
+ *
+ * Models the bonding curve router, DEX router, Lens and ERC20 tokens on top
+ * of the NETWORK_CONFIG virtual reserves (a graduated token keeps trading on
+ * the same reserves through the DEX router), with the curve's CurveCreate /
+ * CurveBuy / CurveSell events. Pass `mockChain.transport` to
+ * `createBotContext` in place of the configured RPC endpoints.
+ */
+
+import {
+  type Abi,
+  type AbiEvent,
+  type AbiStateMutability,
+  type Address,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type EncodeFunctionResultParameters,
+  type Hash,
+  type Hex,
+  type TransactionSerialized,
+  RpcRequestError,
+  concat,
+  custom,
+  decodeFunctionData,
+  domainSeparator,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionResult,
+  encodePacked,
+  getAbiItem,
+  getAddress,
+  hashTypedData,
+  keccak256,
+  parseEther,
+  parseTransaction,
+  recoverAddress,
+  recoverTransactionAddress,
+  slice,
+  toHex,
+  zeroAddress,
+} from 'viem';
+import {
+  bondingCurveEventsAbi,
+  bondingCurveRouterAbi,
+  dexRouterAbi,
+  erc20Abi,
+  erc20EventsAbi,
+  erc20PermitAbi,
+  lensAbi,
+  tokenMetadataAbi,
+} from '../abi';
+import { CONTRACTS, NETWORK_CONFIG } from '../config/constants';
+import {
+  type CurveReserves,
+  applyBuy,
+  applySell,
+  getBuyAmountOut,
+  getSellAmountOut,
+  initialReserves,
+} from '../services/curve';
+
+const tokenAbi = [...erc20Abi, ...erc20PermitAbi, ...tokenMetadataAbi] as const;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+const TRANSFER_GAS = 21_000n;
+const CONTRACT_GAS = 150_000n;
+
+/**
+ * Deterministic token address shared by the mock chain and mock NAD API
+ */
+export function predictTokenAddress(creator: Address, salt: Hex): Address {
+  const hash = keccak256(encodePacked(['address', 'bytes32'], [creator, salt]));
+  return getAddress(slice(hash, 12));
+}
+
+/**
+ * Mock ERC20 token living on the mock curve
+ */
+export interface MockToken {
+  address: Address;
+  name: string;
+  symbol: string;
+  tokenURI: string;
+  creator: Address;
+  reserves: CurveReserves;
+  totalSupply: bigint;
+  graduated: boolean;
+  locked: boolean;
+  /** EIP-2612 support (nonces / DOMAIN_SEPARATOR / router sellPermit) */
+  permit: boolean;
+  nonces: Map<Address, bigint>;
+  balances: Map<Address, bigint>;
+  allowances: Map<Address, Map<Address, bigint>>;
+}
+
+interface MockLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+}
+
+interface MockReceipt {
+  transactionHash: Hash;
+  from: Address;
+  to: Address | null;
+  blockNumber: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  status: 'success' | 'reverted';
+  logs: MockLog[];
+  // Transaction fields served by eth_getTransactionByHash
+  nonce: number;
+  value: bigint;
+  input: Hex;
+}
+
+interface PendingTx {
+  hash: Hash;
+  from: Address;
+  nonce: number;
+  maxFeePerGas: bigint;
+  serialized: TransactionSerialized;
+}
+
+interface MockState {
+  balances: Map<Address, bigint>;
+  nonces: Map<Address, number>;
+  tokens: Map<Address, MockToken>;
+}
+
+/** eth_call / eth_estimateGas transaction object */
+interface RpcCallRequest {
+  from?: Address;
+  to?: Address;
+  value?: Hex;
+  data?: Hex;
+  input?: Hex;
+}
+
+interface CallContext {
+  from: Address;
+  to: Address | null;
+  value: bigint;
+  data: Hex;
+  logs: MockLog[];
+  /** Signer recovered from a sellPermit signature (recovery is async, execution is not) */
+  permitSigner?: Address;
+}
+
+/**
+ * Revert raised while executing a call (carries ABI-encoded error data)
+ */
+class MockRevert extends Error {
+  constructor(public readonly data: Hex, reason: string) {
+    super(reason);
+  }
+}
+
+export interface MockChainOptions {
+  chainId: number;
+  networkMode?: 'mainnet' | 'testnet';
+  /** Initial native balances (wei) */
+  balances?: Record<Address, bigint>;
+  gasPrice?: bigint;
+  /** Block timestamp source (seconds), defaults to wall clock */
+  now?: () => number;
+}
+
+/**
+ * Mock chain state + JSON-RPC handler
+ */
+export class MockChain {
+  readonly chainId: number;
+  readonly router: Address;
+  readonly dexRouter: Address;
+  readonly lens: Address;
+  readonly curve: Address;
+  gasPrice: bigint;
+
+  /** Every JSON-RPC call received, in order */
+  readonly calls: Array<{ method: string; params: unknown }> = [];
+  /** Mine each transaction as it arrives; when false they wait in the mempool for mine() */
+  automine = true;
+
+  private state: MockState = {
+    balances: new Map(),
+    nonces: new Map(),
+    tokens: new Map(),
+  };
+  private receipts = new Map<Hash, MockReceipt>();
+  private mempool: PendingTx[] = [];
+  private blockNumber = 1n;
+  // Native balances as of each mined block (for eth_getBalance at a block)
+  private balanceHistory = new Map<bigint, Map<Address, bigint>>();
+  private now: () => number;
+
+  constructor(options: MockChainOptions) {
+    const addrs = CONTRACTS[options.networkMode ?? 'mainnet'];
+    this.chainId = options.chainId;
+    this.router = getAddress(addrs.BONDING_CURVE_ROUTER);
+    this.dexRouter = getAddress(addrs.DEX_ROUTER);
+    this.lens = getAddress(addrs.LENS);
+    this.curve = getAddress(addrs.BONDING_CURVE);
+    this.gasPrice = options.gasPrice ?? parseEther('0.000000002'); // 2 gwei
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+
+    for (const [address, amount] of Object.entries(options.balances ?? {})) {
+      this.setBalance(address as Address, amount);
+    }
+  }
+
+  /**
+   * viem transport backed by this chain
+   */
+  get transport() {
+    return custom({ request: (args) => this.request(args) }, { retryCount: 0 });
+  }
+
+  setBalance(address: Address, amount: bigint): void {
+    this.state.balances.set(getAddress(address), amount);
+  }
+
+  getBalance(address: Address): bigint {
+    return this.state.balances.get(getAddress(address)) ?? 0n;
+  }
+
+  /**
+   * Native balance at a block tag (hex block numbers use the recorded history)
+   */
+  private getBalanceAt(address: Address, blockTag?: string): bigint {
+    if (!blockTag || !blockTag.startsWith('0x')) return this.getBalance(address);
+
+    for (let block = BigInt(blockTag); block >= 1n; block--) {
+      const balances = this.balanceHistory.get(block);
+      if (balances) return balances.get(getAddress(address)) ?? 0n;
+    }
+    return this.getBalance(address);
+  }
+
+  getToken(address: Address): MockToken | undefined {
+    return this.state.tokens.get(getAddress(address));
+  }
+
+  getTokenBalance(token: Address, owner: Address): bigint {
+    return this.getToken(token)?.balances.get(getAddress(owner)) ?? 0n;
+  }
+
+  /**
+   * Seed an existing curve token (e.g. the source tokens of the mock token list)
+   */
+  addToken(token: { address: Address; name: string; symbol: string; tokenURI: string; creator?: Address }): MockToken {
+    const address = getAddress(token.address);
+    const entry: MockToken = {
+      address,
+      name: token.name,
+      symbol: token.symbol,
+      tokenURI: token.tokenURI,
+      creator: token.creator ?? zeroAddress,
+      reserves: initialReserves(),
+      totalSupply: parseEther(NETWORK_CONFIG.TOTAL_TOKEN_SUPPLY),
+      graduated: false,
+      locked: false,
+      permit: true,
+      nonces: new Map(),
+      balances: new Map([[this.curve, parseEther(NETWORK_CONFIG.TOTAL_TOKEN_SUPPLY)]]),
+      allowances: new Map(),
+    };
+    this.state.tokens.set(address, entry);
+    return entry;
+  }
+
+  setGraduated(token: Address, graduated: boolean): void {
+    const entry = this.getToken(token);
+    if (!entry) throw new Error(`Unknown mock token: ${token}`);
+    entry.graduated = graduated;
+  }
+
+  setLocked(token: Address, locked: boolean): void {
+    const entry = this.getToken(token);
+    if (!entry) throw new Error(`Unknown mock token: ${token}`);
+    entry.locked = locked;
+  }
+
+  setPermitSupported(token: Address, permit: boolean): void {
+    const entry = this.getToken(token);
+    if (!entry) throw new Error(`Unknown mock token: ${token}`);
+    entry.permit = permit;
+  }
+
+  getReceipt(hash: Hash): MockReceipt | undefined {
+    return this.receipts.get(hash);
+  }
+
+  /**
+   * Hashes waiting in the mempool (automine off)
+   */
+  get pendingHashes(): Hash[] {
+    return this.mempool.map((tx) => tx.hash);
+  }
+
+  /**
+   * Mine every mempool transaction, one block each, in sender nonce order
+   */
+  async mine(): Promise<Hash[]> {
+    const queued = [...this.mempool].sort((a, b) => a.nonce - b.nonce);
+    this.mempool = [];
+    for (const tx of queued) {
+      await this.mineTransaction(tx.serialized);
+    }
+    return queued.map((tx) => tx.hash);
+  }
+
+  /**
+   * Forget mempool transactions, as a node evicting them would
+   */
+  dropPending(): number {
+    const dropped = this.mempool.length;
+    this.mempool = [];
+    return dropped;
+  }
+
+  private pendingNonce(address: Address): number {
+    const queued = this.mempool.filter((tx) => tx.from === address).length;
+    return (this.state.nonces.get(address) ?? 0) + queued;
+  }
+
+  /**
+   * EIP-1193 request handler
+   */
+  async request({ method, params }: { method: string; params?: unknown }): Promise<unknown> {
+    this.calls.push({ method, params });
+    const args = (params ?? []) as unknown[];
+
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(this.chainId);
+      case 'eth_blockNumber':
+        return toHex(this.blockNumber);
+      case 'eth_gasPrice':
+        return toHex(this.gasPrice);
+      case 'eth_maxPriorityFeePerGas':
+        return toHex(this.gasPrice / 2n);
+      case 'eth_getBlockByNumber':
+        return this.formatBlock();
+      case 'eth_getBalance':
+        return toHex(this.getBalanceAt(args[0] as Address, args[1] as string | undefined));
+      case 'eth_getCode':
+        // Tokens have "code"; router and lens are modelled natively
+        return this.state.tokens.has(getAddress(args[0] as Address)) ? '0x01' : '0x';
+      case 'eth_getTransactionCount': {
+        const address = getAddress(args[0] as Address);
+        return toHex(args[1] === 'pending' ? this.pendingNonce(address) : this.state.nonces.get(address) ?? 0);
+      }
+      case 'eth_call':
+        return (await this.rpcExecute(method, args[0] as RpcCallRequest)).output;
+      case 'eth_estimateGas':
+        return toHex((await this.rpcExecute(method, args[0] as RpcCallRequest)).gas);
+      case 'eth_sendRawTransaction':
+        return this.sendRawTransaction(args[0] as TransactionSerialized);
+      case 'eth_getTransactionReceipt':
+        return this.formatReceipt(args[0] as Hash);
+      case 'eth_getTransactionByHash':
+        return this.formatTransaction(args[0] as Hash);
+      default:
+        throw new RpcRequestError({
+          body: { method, params },
+          error: { code: -32601, message: `Method not supported by mock chain: ${method}` },
+          url: 'mock://chain',
+        });
+    }
+  }
+
+  /**
+   * Run a call (eth_call / eth_estimateGas) without committing state
+   */
+  private async rpcExecute(
+    method: string,
+    request: RpcCallRequest
+  ): Promise<{ output: Hex; gas: bigint }> {
+    const ctx: CallContext = {
+      from: getAddress(request.from ?? zeroAddress),
+      to: request.to ? getAddress(request.to) : null,
+      value: request.value ? BigInt(request.value) : 0n,
+      data: request.data ?? request.input ?? '0x',
+      logs: [],
+    };
+    await this.recoverPermitSigner(ctx);
+
+    const snapshot = structuredClone(this.state);
+    try {
+      const output = this.execute(ctx);
+      return { output, gas: ctx.data === '0x' ? TRANSFER_GAS : CONTRACT_GAS };
+    } catch (error) {
+      if (error instanceof MockRevert) {
+        throw new RpcRequestError({
+          body: { method, params: [request] },
+          error: { code: 3, message: `execution reverted: ${error.message}`, data: error.data },
+          url: 'mock://chain',
+        });
+      }
+      throw error;
+    } finally {
+      this.state = snapshot;
+    }
+  }
+
+  /**
+   * Accept a signed transaction: mine it now, or queue it (automine off)
+   * A queued nonce can be replaced by a transaction paying at least 10% more.
+   */
+  private async sendRawTransaction(serialized: TransactionSerialized): Promise<Hash> {
+    const tx = parseTransaction(serialized);
+    const from = getAddress(await recoverTransactionAddress({ serializedTransaction: serialized }));
+    const hash = keccak256(serialized);
+    const reject = (message: string) =>
+      new RpcRequestError({
+        body: { method: 'eth_sendRawTransaction', params: [serialized] },
+        error: { code: -32000, message },
+        url: 'mock://chain',
+      });
+
+    const nonce = this.state.nonces.get(from) ?? 0;
+    if (tx.nonce === undefined || tx.nonce < nonce) {
+      throw reject(`nonce too low: next nonce ${nonce}, tx nonce ${tx.nonce}`);
+    }
+    if (tx.nonce > this.pendingNonce(from)) {
+      throw reject(`nonce too high: next nonce ${this.pendingNonce(from)}, tx nonce ${tx.nonce}`);
+    }
+
+    const maxFeePerGas = tx.maxFeePerGas ?? tx.gasPrice ?? 0n;
+    const queued = this.mempool.findIndex((p) => p.from === from && p.nonce === tx.nonce);
+    if (queued !== -1) {
+      if (maxFeePerGas * 10n < this.mempool[queued]!.maxFeePerGas * 11n) {
+        throw reject('replacement transaction underpriced');
+      }
+      this.mempool.splice(queued, 1);
+    }
+
+    if (this.automine && tx.nonce === nonce) {
+      await this.mineTransaction(serialized);
+    } else {
+      this.mempool.push({ hash, from, nonce: tx.nonce, maxFeePerGas, serialized });
+    }
+    return hash;
+  }
+
+  /**
+   * Execute and mine a signed transaction in a new block
+   */
+  private async mineTransaction(serialized: TransactionSerialized): Promise<Hash> {
+    const tx = parseTransaction(serialized);
+    const from = getAddress(await recoverTransactionAddress({ serializedTransaction: serialized }));
+    const hash = keccak256(serialized);
+    const nonce = this.state.nonces.get(from) ?? 0;
+
+    const value = tx.value ?? 0n;
+    const data = tx.data ?? '0x';
+    const gasUsed = data === '0x' ? TRANSFER_GAS : CONTRACT_GAS;
+    const effectiveGasPrice = this.gasPrice;
+    const gasCost = gasUsed * effectiveGasPrice;
+
+    if (this.getBalance(from) < value + gasCost) {
+      throw new RpcRequestError({
+        body: { method: 'eth_sendRawTransaction', params: [serialized] },
+        error: { code: -32000, message: 'insufficient funds for gas * price + value' },
+        url: 'mock://chain',
+      });
+    }
+
+    // Close the current block with whatever changed since the last transaction
+    this.balanceHistory.set(this.blockNumber, new Map(this.state.balances));
+
+    this.state.nonces.set(from, nonce + 1);
+    this.setBalance(from, this.getBalance(from) - gasCost);
+    this.blockNumber++;
+
+    const ctx: CallContext = {
+      from,
+      to: tx.to ? getAddress(tx.to) : null,
+      value,
+      data,
+      logs: [],
+    };
+    await this.recoverPermitSigner(ctx);
+
+    const snapshot = structuredClone(this.state);
+    let status: MockReceipt['status'] = 'success';
+    try {
+      this.execute(ctx);
+    } catch (error) {
+      if (!(error instanceof MockRevert)) throw error;
+      this.state = snapshot;
+      ctx.logs = [];
+      status = 'reverted';
+    }
+
+    this.balanceHistory.set(this.blockNumber, new Map(this.state.balances));
+    this.receipts.set(hash, {
+      transactionHash: hash,
+      from,
+      to: ctx.to,
+      blockNumber: this.blockNumber,
+      gasUsed,
+      effectiveGasPrice,
+      status,
+      logs: ctx.logs,
+      nonce,
+      value,
+      input: data,
+    });
+
+    return hash;
+  }
+
+  /**
+   * Execute a call against the current state
+   */
+  private execute(ctx: CallContext): Hex {
+    if (ctx.value > 0n) {
+      if (this.getBalance(ctx.from) < ctx.value) {
+        throw new MockRevert('0x', 'insufficient balance for value transfer');
+      }
+      this.setBalance(ctx.from, this.getBalance(ctx.from) - ctx.value);
+      if (ctx.to && ctx.to !== this.router && ctx.to !== this.dexRouter) {
+        this.setBalance(ctx.to, this.getBalance(ctx.to) + ctx.value);
+      }
+    }
+
+    if (!ctx.to || ctx.data === '0x') return '0x';
+    if (ctx.to === this.router) return this.executeRouter(ctx);
+    if (ctx.to === this.dexRouter) return this.executeDexRouter(ctx);
+    if (ctx.to === this.lens) return this.executeLens(ctx);
+
+    const token = this.state.tokens.get(ctx.to);
+    if (token) return this.executeToken(token, ctx);
+
+    // No code at address
+    return '0x';
+  }
+
+  private executeRouter(ctx: CallContext): Hex {
+    const call = decodeFunctionData({ abi: bondingCurveRouterAbi, data: ctx.data });
+
+    switch (call.functionName) {
+      case 'create': {
+        const [params] = call.args;
+        const deployFee = parseEther(NETWORK_CONFIG.DEPLOY_FEE);
+        if (ctx.value < deployFee) this.revert('InsufficientMon');
+
+        const address = predictTokenAddress(ctx.from, params.salt);
+        if (this.state.tokens.has(address)) {
+          throw new MockRevert('0x', 'token already exists');
+        }
+
+        const buyAmount = ctx.value - deployFee;
+        const reserves = initialReserves();
+        const tokensOut = getBuyAmountOut(reserves, buyAmount);
+        if (tokensOut < params.amountOut) this.revert('InsufficientAmountOut');
+
+        const token: MockToken = {
+          address,
+          name: params.name,
+          symbol: params.symbol,
+          tokenURI: params.tokenURI,
+          creator: ctx.from,
+          reserves: applyBuy(reserves, buyAmount),
+          totalSupply: parseEther(NETWORK_CONFIG.TOTAL_TOKEN_SUPPLY),
+          graduated: false,
+          locked: false,
+          permit: true,
+          nonces: new Map(),
+          balances: new Map(),
+          allowances: new Map(),
+        };
+        token.balances.set(this.curve, token.totalSupply - tokensOut);
+        token.balances.set(ctx.from, tokensOut);
+        this.state.tokens.set(address, token);
+
+        this.emitTransfer(ctx, address, zeroAddress, this.curve, token.totalSupply);
+        this.emitEvent(ctx, this.curve, bondingCurveEventsAbi, 'CurveCreate', {
+          creator: ctx.from,
+          token: address,
+          pool: zeroAddress,
+          name: params.name,
+          symbol: params.symbol,
+          tokenURI: params.tokenURI,
+          virtualMon: reserves.monReserve,
+          virtualToken: reserves.tokenReserve,
+          targetTokenAmount: parseEther(NETWORK_CONFIG.TARGET_TOKEN_AMOUNT),
+        });
+        if (tokensOut > 0n) {
+          this.emitTransfer(ctx, address, this.curve, ctx.from, tokensOut);
+          this.emitEvent(ctx, this.curve, bondingCurveEventsAbi, 'CurveBuy', {
+            sender: ctx.from,
+            token: address,
+            amountIn: buyAmount,
+            amountOut: tokensOut,
+          });
+        }
+
+        return encodeFunctionResult({
+          abi: bondingCurveRouterAbi,
+          functionName: 'create',
+          result: [address, zeroAddress],
+        });
+      }
+
+      case 'buy': {
+        const [params] = call.args;
+        const token = this.requireCurveToken(params.token, params.deadline);
+        const tokensOut = getBuyAmountOut(token.reserves, ctx.value);
+        if (tokensOut < params.amountOutMin) this.revert('InsufficientAmountOut');
+
+        token.reserves = applyBuy(token.reserves, ctx.value);
+        this.moveTokens(ctx, token, this.curve, getAddress(params.to), tokensOut);
+        this.emitEvent(ctx, this.curve, bondingCurveEventsAbi, 'CurveBuy', {
+          sender: ctx.from,
+          token: token.address,
+          amountIn: ctx.value,
+          amountOut: tokensOut,
+        });
+        return '0x';
+      }
+
+      case 'sell': {
+        const [params] = call.args;
+        const token = this.requireCurveToken(params.token, params.deadline);
+        this.curveSell(ctx, token, params);
+        return '0x';
+      }
+
+      case 'sellPermit': {
+        const [params] = call.args;
+        const token = this.requireCurveToken(params.token, params.deadline);
+        if (!token.permit) throw new MockRevert('0x', 'token does not support permit');
+        if (ctx.permitSigner !== ctx.from) throw new MockRevert('0x', 'invalid permit signature');
+
+        token.nonces.set(ctx.from, (token.nonces.get(ctx.from) ?? 0n) + 1n);
+        const owned = token.allowances.get(ctx.from) ?? new Map<Address, bigint>();
+        owned.set(this.router, params.amountAllowance);
+        token.allowances.set(ctx.from, owned);
+
+        this.curveSell(ctx, token, params);
+        return '0x';
+      }
+
+      default:
+        throw new MockRevert('0x', `router.${call.functionName} not supported by mock chain`);
+    }
+  }
+
+  private curveSell(
+    ctx: CallContext,
+    token: MockToken,
+    params: { amountIn: bigint; amountOutMin: bigint; to: Address }
+  ): void {
+    const allowance = token.allowances.get(ctx.from)?.get(this.router) ?? 0n;
+    if (allowance < params.amountIn) this.revert('InvalidAllowance');
+    if ((token.balances.get(ctx.from) ?? 0n) < params.amountIn) {
+      this.revert('InsufficientAmountIn');
+    }
+
+    const monOut = getSellAmountOut(token.reserves, params.amountIn);
+    if (monOut < params.amountOutMin) this.revert('InsufficientAmountOut');
+
+    token.allowances.get(ctx.from)!.set(this.router, allowance - params.amountIn);
+    token.reserves = applySell(token.reserves, params.amountIn);
+    this.moveTokens(ctx, token, ctx.from, this.curve, params.amountIn);
+
+    const to = getAddress(params.to);
+    this.setBalance(to, this.getBalance(to) + monOut);
+    this.emitEvent(ctx, this.curve, bondingCurveEventsAbi, 'CurveSell', {
+      sender: ctx.from,
+      token: token.address,
+      amountIn: params.amountIn,
+      amountOut: monOut,
+    });
+  }
+
+  /**
+   * EIP-712 domain of a mock token's permit
+   */
+  private permitDomain(token: MockToken) {
+    return {
+      name: token.name,
+      version: '1',
+      chainId: this.chainId,
+      verifyingContract: token.address,
+    };
+  }
+
+  private async recoverPermitSigner(ctx: CallContext): Promise<void> {
+    if (ctx.to !== this.router || ctx.data === '0x') return;
+
+    let call;
+    try {
+      call = decodeFunctionData({ abi: bondingCurveRouterAbi, data: ctx.data });
+    } catch {
+      return;
+    }
+    if (call.functionName !== 'sellPermit') return;
+
+    const [params] = call.args;
+    const token = this.state.tokens.get(getAddress(params.token));
+    if (!token) return;
+
+    const hash = hashTypedData({
+      domain: this.permitDomain(token),
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: {
+        owner: ctx.from,
+        spender: this.router,
+        value: params.amountAllowance,
+        nonce: token.nonces.get(ctx.from) ?? 0n,
+        deadline: params.deadline,
+      },
+    });
+    ctx.permitSigner = getAddress(
+      await recoverAddress({ hash, signature: { r: params.r, s: params.s, v: BigInt(params.v) } })
+    );
+  }
+
+  private executeDexRouter(ctx: CallContext): Hex {
+    const call = decodeFunctionData({ abi: dexRouterAbi, data: ctx.data });
+
+    switch (call.functionName) {
+      case 'getAmountOut': {
+        const [tokenAddress, amountIn, isBuy] = call.args;
+        const token = this.requireDexToken(tokenAddress);
+        return encodeFunctionResult({
+          abi: dexRouterAbi,
+          functionName: 'getAmountOut',
+          result: isBuy
+            ? getBuyAmountOut(token.reserves, amountIn)
+            : getSellAmountOut(token.reserves, amountIn),
+        });
+      }
+
+      case 'buy': {
+        const [params] = call.args;
+        if (params.deadline < BigInt(this.now())) this.revert('DeadlineExpired');
+        const token = this.requireDexToken(params.token);
+        const tokensOut = getBuyAmountOut(token.reserves, ctx.value);
+        if (tokensOut < params.amountOutMin) this.revert('InsufficientAmountOut');
+
+        token.reserves = applyBuy(token.reserves, ctx.value);
+        this.moveTokens(ctx, token, this.curve, getAddress(params.to), tokensOut);
+        return encodeFunctionResult({ abi: dexRouterAbi, functionName: 'buy', result: tokensOut });
+      }
+
+      case 'sell': {
+        const [params] = call.args;
+        if (params.deadline < BigInt(this.now())) this.revert('DeadlineExpired');
+        const token = this.requireDexToken(params.token);
+        const allowance = token.allowances.get(ctx.from)?.get(this.dexRouter) ?? 0n;
+        if (allowance < params.amountIn) this.revert('InvalidAllowance');
+        if ((token.balances.get(ctx.from) ?? 0n) < params.amountIn) {
+          this.revert('InsufficientAmountIn');
+        }
+
+        const monOut = getSellAmountOut(token.reserves, params.amountIn);
+        if (monOut < params.amountOutMin) this.revert('InsufficientAmountOut');
+
+        token.allowances.get(ctx.from)!.set(this.dexRouter, allowance - params.amountIn);
+        token.reserves = applySell(token.reserves, params.amountIn);
+        this.moveTokens(ctx, token, ctx.from, this.curve, params.amountIn);
+
+        const to = getAddress(params.to);
+        this.setBalance(to, this.getBalance(to) + monOut);
+        return encodeFunctionResult({ abi: dexRouterAbi, functionName: 'sell', result: monOut });
+      }
+
+      default:
+        throw new MockRevert('0x', `dexRouter.${(call as { functionName: string }).functionName} not supported by mock chain`);
+    }
+  }
+
+  private executeLens(ctx: CallContext): Hex {
+    const call = decodeFunctionData({ abi: lensAbi, data: ctx.data });
+
+    switch (call.functionName) {
+      case 'getInitialBuyAmountOut': {
+        const [amountIn] = call.args;
+        return encodeFunctionResult({
+          abi: lensAbi,
+          functionName: 'getInitialBuyAmountOut',
+          result: getBuyAmountOut(initialReserves(), amountIn),
+        });
+      }
+
+      case 'getAmountOut': {
+        const [tokenAddress, amountIn, isBuy] = call.args;
+        const token = this.requireToken(tokenAddress);
+        const amountOut = isBuy
+          ? getBuyAmountOut(token.reserves, amountIn)
+          : getSellAmountOut(token.reserves, amountIn);
+        return encodeFunctionResult({
+          abi: lensAbi,
+          functionName: 'getAmountOut',
+          result: [token.graduated ? this.dexRouter : this.router, amountOut],
+        });
+      }
+
+      case 'isGraduated':
+        return encodeFunctionResult({
+          abi: lensAbi,
+          functionName: 'isGraduated',
+          result: this.requireToken(call.args[0]).graduated,
+        });
+
+      case 'isLocked':
+        return encodeFunctionResult({
+          abi: lensAbi,
+          functionName: 'isLocked',
+          result: this.requireToken(call.args[0]).locked,
+        });
+
+      case 'getProgress': {
+        const token = this.requireToken(call.args[0]);
+        const start = initialReserves().tokenReserve;
+        const target = parseEther(NETWORK_CONFIG.TARGET_TOKEN_AMOUNT);
+        const sold = start - token.reserves.tokenReserve;
+        return encodeFunctionResult({
+          abi: lensAbi,
+          functionName: 'getProgress',
+          result: (sold * 10_000n) / (start - target),
+        });
+      }
+
+      default:
+        throw new MockRevert('0x', `lens.${call.functionName} not supported by mock chain`);
+    }
+  }
+
+  private executeToken(token: MockToken, ctx: CallContext): Hex {
+    const call = decodeFunctionData({ abi: tokenAbi, data: ctx.data });
+    const result = <functionName extends ContractFunctionName<typeof tokenAbi>>(
+      functionName: functionName,
+      value: ContractFunctionReturnType<typeof tokenAbi, AbiStateMutability, functionName>
+    ): Hex =>
+      encodeFunctionResult<typeof tokenAbi, functionName>({
+        abi: tokenAbi,
+        functionName,
+        result: value,
+      } as EncodeFunctionResultParameters<typeof tokenAbi, functionName>);
+
+    switch (call.functionName) {
+      case 'name':
+        return result('name', token.name);
+      case 'symbol':
+        return result('symbol', token.symbol);
+      case 'decimals':
+        return result('decimals', 18);
+      case 'tokenURI':
+        return result('tokenURI', token.tokenURI);
+      case 'totalSupply':
+        return result('totalSupply', token.totalSupply);
+      case 'balanceOf':
+        return result('balanceOf', token.balances.get(getAddress(call.args[0])) ?? 0n);
+      case 'allowance':
+        return result(
+          'allowance',
+          token.allowances.get(getAddress(call.args[0]))?.get(getAddress(call.args[1])) ?? 0n
+        );
+      case 'approve': {
+        const [spender, amount] = call.args;
+        const owned = token.allowances.get(ctx.from) ?? new Map<Address, bigint>();
+        owned.set(getAddress(spender), amount);
+        token.allowances.set(ctx.from, owned);
+        return result('approve', true);
+      }
+      case 'transfer': {
+        const [to, amount] = call.args;
+        this.moveTokens(ctx, token, ctx.from, getAddress(to), amount);
+        return result('transfer', true);
+      }
+      case 'transferFrom': {
+        const [from, to, amount] = call.args;
+        const owner = getAddress(from);
+        const allowance = token.allowances.get(owner)?.get(ctx.from) ?? 0n;
+        if (allowance < amount) throw new MockRevert('0x', 'ERC20: insufficient allowance');
+        token.allowances.get(owner)!.set(ctx.from, allowance - amount);
+        this.moveTokens(ctx, token, owner, getAddress(to), amount);
+        return result('transferFrom', true);
+      }
+      case 'DOMAIN_SEPARATOR':
+        if (!token.permit) throw new MockRevert('0x', 'token does not support permit');
+        return result('DOMAIN_SEPARATOR', domainSeparator({ domain: this.permitDomain(token) }));
+      case 'nonces':
+        if (!token.permit) throw new MockRevert('0x', 'token does not support permit');
+        return result('nonces', token.nonces.get(getAddress(call.args[0])) ?? 0n);
+      default:
+        throw new MockRevert('0x', `token.${(call as { functionName: string }).functionName} not supported by mock chain`);
+    }
+  }
+
+  private requireToken(address: Address): MockToken {
+    const token = this.state.tokens.get(getAddress(address));
+    if (!token) throw new MockRevert('0x', `unknown token ${address}`);
+    return token;
+  }
+
+  private requireDexToken(address: Address): MockToken {
+    const token = this.requireToken(address);
+    if (!token.graduated) throw new MockRevert('0x', 'token not listed on DEX');
+    return token;
+  }
+
+  private requireCurveToken(address: Address, deadline: bigint): MockToken {
+    if (deadline < BigInt(this.now())) this.revert('DeadlineExpired');
+    const token = this.requireToken(address);
+    if (token.graduated) throw new MockRevert('0x', 'token graduated');
+    return token;
+  }
+
+  private moveTokens(
+    ctx: CallContext,
+    token: MockToken,
+    from: Address,
+    to: Address,
+    amount: bigint
+  ): void {
+    const balance = token.balances.get(from) ?? 0n;
+    if (balance < amount) throw new MockRevert('0x', 'ERC20: transfer amount exceeds balance');
+    token.balances.set(from, balance - amount);
+    token.balances.set(to, (token.balances.get(to) ?? 0n) + amount);
+    this.emitTransfer(ctx, token.address, from, to, amount);
+  }
+
+  private emitTransfer(
+    ctx: CallContext,
+    token: Address,
+    from: Address,
+    to: Address,
+    amount: bigint
+  ): void {
+    this.emitEvent(ctx, token, erc20EventsAbi, 'Transfer', { from, to, value: amount });
+  }
+
+  private emitEvent(
+    ctx: CallContext,
+    address: Address,
+    abi: Abi,
+    eventName: string,
+    args: Record<string, unknown>
+  ): void {
+    const event = getAbiItem({ abi, name: eventName }) as AbiEvent;
+    const data = event.inputs.filter((input) => !input.indexed);
+    ctx.logs.push({
+      address,
+      topics: encodeEventTopics({ abi: [event], args }) as Hex[],
+      data: encodeAbiParameters(data, data.map((input) => args[input.name!])),
+    });
+  }
+
+  private revert(
+    errorName:
+      | 'DeadlineExpired'
+      | 'InsufficientAmountIn'
+      | 'InsufficientAmountOut'
+      | 'InsufficientMon'
+      | 'InvalidAllowance'
+  ): never {
+    throw new MockRevert(encodeErrorResult({ abi: bondingCurveRouterAbi, errorName }), errorName);
+  }
+
+  private blockHash(number: bigint): Hash {
+    return keccak256(concat([toHex('mock-block'), toHex(number, { size: 32 })]));
+  }
+
+  private formatBlock() {
+    return {
+      number: toHex(this.blockNumber),
+      hash: this.blockHash(this.blockNumber),
+      parentHash: this.blockHash(this.blockNumber - 1n),
+      timestamp: toHex(this.now()),
+      baseFeePerGas: toHex(this.gasPrice / 2n),
+      gasLimit: toHex(30_000_000n),
+      gasUsed: '0x0',
+      miner: zeroAddress,
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      totalDifficulty: '0x0',
+      extraData: '0x',
+      size: '0x0',
+      logsBloom: `0x${'0'.repeat(512)}`,
+      sha3Uncles: `0x${'0'.repeat(64)}`,
+      stateRoot: `0x${'0'.repeat(64)}`,
+      receiptsRoot: `0x${'0'.repeat(64)}`,
+      transactionsRoot: `0x${'0'.repeat(64)}`,
+      transactions: [],
+      uncles: [],
+    };
+  }
+
+  private formatReceipt(hash: Hash) {
+    const receipt = this.receipts.get(hash);
+    if (!receipt) return null;
+
+    const blockHash = this.blockHash(receipt.blockNumber);
+    return {
+      transactionHash: receipt.transactionHash,
+      transactionIndex: '0x0',
+      blockHash,
+      blockNumber: toHex(receipt.blockNumber),
+      from: receipt.from,
+      to: receipt.to,
+      cumulativeGasUsed: toHex(receipt.gasUsed),
+      gasUsed: toHex(receipt.gasUsed),
+      effectiveGasPrice: toHex(receipt.effectiveGasPrice),
+      contractAddress: null,
+      logsBloom: `0x${'0'.repeat(512)}`,
+      status: receipt.status === 'success' ? '0x1' : '0x0',
+      type: '0x2',
+      logs: receipt.logs.map((log, i) => ({
+        ...log,
+        blockHash,
+        blockNumber: toHex(receipt.blockNumber),
+        transactionHash: receipt.transactionHash,
+        transactionIndex: '0x0',
+        logIndex: toHex(i),
+        removed: false,
+      })),
+    };
+  }
+
+  private formatTransaction(hash: Hash) {
+    const receipt = this.receipts.get(hash);
+    if (!receipt) return null;
+
+    return {
+      hash,
+      from: receipt.from,
+      to: receipt.to,
+      blockHash: this.blockHash(receipt.blockNumber),
+      blockNumber: toHex(receipt.blockNumber),
+      transactionIndex: '0x0',
+      gasPrice: toHex(receipt.effectiveGasPrice),
+      gas: toHex(receipt.gasUsed),
+      input: receipt.input,
+      nonce: toHex(receipt.nonce),
+      value: toHex(receipt.value),
+      type: '0x2',
+      v: '0x0',
+      r: '0x0',
+      s: '0x0',
+    };
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Local HTTP stand-in for the NAD API (for end-to-end tests)
+ *
+ * Serves `/order/creation_time`, `/metadata/image`, `/metadata/metadata`
+ * and `/token/salt`, plus the image / metadata URIs it hands out.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import type { Address, Hex } from 'viem';
+import { getAddress } from 'viem';
+import { predictTokenAddress } from './mockChain';
+import type {
+  MetadataUploadRequest,
+  MetadataUploadResponse,
+  TokenListItem,
+  TokenListResponse,
+} from '../types';
+
+// 1x1 transparent PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+/**
+ * Recorded request
+ */
+export interface MockApiRequest {
+  method: string;
+  path: string;
+  body: Buffer;
+}
+
+/**
+ * Seed token for `/order/creation_time`
+ */
+export interface MockSourceToken {
+  name: string;
+  symbol: string;
+  description?: string;
+  twitter?: string | null;
+  telegram?: string | null;
+  website?: string | null;
+}
+
+/**
+ * Mock NAD API server
+ */
+export class MockNadApi {
+  /** Every request received, in order */
+  readonly requests: MockApiRequest[] = [];
+
+  /** Token list served by `/order/creation_time` (ASC by creation time) */
+  sourceTokens: MockSourceToken[];
+
+  /** Respond with this status for a path (e.g. simulate outages) */
+  readonly failures = new Map<string, number>();
+
+  private server?: Server;
+  private images = new Map<string, { data: Buffer; contentType: string }>();
+  private metadata = new Map<string, MetadataUploadResponse['metadata']>();
+  private counter = 0;
+  private _baseUrl?: string;
+
+  constructor(sourceTokens: MockSourceToken[] = defaultSourceTokens(5)) {
+    this.sourceTokens = sourceTokens;
+  }
+
+  get baseUrl(): string {
+    if (!this._baseUrl) throw new Error('MockNadApi is not started');
+    return this._baseUrl;
+  }
+
+  /**
+   * Start listening on a random local port and return the base URL
+   */
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, { error: String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this._baseUrl = `http://127.0.0.1:${port}`;
+    return this._baseUrl;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) =>
+      this.server!.close((error) => (error ? reject(error) : resolve()))
+    );
+    this.server = undefined;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.baseUrl);
+    const body = await readBody(req);
+    this.requests.push({ method: req.method ?? 'GET', path: url.pathname, body });
+
+    const failure = this.failures.get(url.pathname);
+    if (failure) {
+      this.send(res, failure, { error: 'mock failure' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/order/creation_time') {
+      const page = parseInt(url.searchParams.get('page') ?? '1');
+      const limit = parseInt(url.searchParams.get('limit') ?? '100');
+      this.send(res, 200, this.tokenList(page, limit));
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/metadata/image') {
+      const id = `img-${++this.counter}`;
+      this.images.set(id, {
+        data: body,
+        contentType: req.headers['content-type'] ?? 'application/octet-stream',
+      });
+      this.send(res, 200, { image_uri: `${this.baseUrl}/images/${id}.png`, is_nsfw: false });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/metadata/metadata') {
+      const request = JSON.parse(body.toString('utf-8')) as MetadataUploadRequest;
+      const id = `meta-${++this.counter}`;
+      const metadata: MetadataUploadResponse['metadata'] = {
+        name: request.name,
+        symbol: request.symbol,
+        description: request.description,
+        image_uri: request.image_uri,
+        is_nsfw: false,
+        twitter: request.twitter ?? '',
+        telegram: request.telegram ?? '',
+        website: request.website ?? '',
+      };
+      this.metadata.set(id, metadata);
+      this.send(res, 200, { metadata, metadata_uri: `${this.baseUrl}/metadata/${id}.json` });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token/salt') {
+      const { creator } = JSON.parse(body.toString('utf-8')) as { creator: Address };
+      const salt = `0x${randomBytes(32).toString('hex')}` as Hex;
+      this.send(res, 200, { salt, address: predictTokenAddress(getAddress(creator), salt) });
+      return;
+    }
+
+    const image = url.pathname.match(/^\/images\/(.+)\.png$/);
+    if (req.method === 'GET' && image) {
+      const stored = this.images.get(image[1]!);
+      res.writeHead(200, { 'Content-Type': stored?.contentType ?? 'image/png' });
+      res.end(stored?.data ?? PIXEL_PNG);
+      return;
+    }
+
+    const source = url.pathname.match(/^\/metadata\/source-(\d+)\.json$/);
+    if (req.method === 'GET' && source && this.sourceTokens[Number(source[1])]) {
+      this.send(res, 200, this.sourceMetadata(Number(source[1])));
+      return;
+    }
+
+    const meta = url.pathname.match(/^\/metadata\/(.+)\.json$/);
+    if (req.method === 'GET' && meta && this.metadata.has(meta[1]!)) {
+      this.send(res, 200, this.metadata.get(meta[1]!));
+      return;
+    }
+
+    this.send(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+  }
+
+  private tokenList(page: number, limit: number): TokenListResponse {
+    const start = (page - 1) * limit;
+    const tokens = this.sourceTokens
+      .slice(start, start + limit)
+      .map((token, i) => this.toListItem(token, start + i));
+    return { tokens, total_count: this.sourceTokens.length };
+  }
+
+  /**
+   * Token address of the source token at `index` (seed it on a MockChain for reuse mode)
+   */
+  sourceTokenAddress(index: number): Address {
+    return getAddress(`0x${(index + 1).toString(16).padStart(40, '0')}`);
+  }
+
+  /**
+   * Metadata URI the source token at `index` was created with
+   */
+  sourceTokenURI(index: number): string {
+    return `${this.baseUrl}/metadata/source-${index}.json`;
+  }
+
+  private sourceMetadata(index: number): MetadataUploadResponse['metadata'] {
+    const token = this.sourceTokens[index]!;
+    return {
+      name: token.name,
+      symbol: token.symbol,
+      description: token.description ?? `${token.name} description`,
+      image_uri: `${this.baseUrl}/images/source-${index}.png`,
+      is_nsfw: false,
+      twitter: token.twitter ?? '',
+      telegram: token.telegram ?? '',
+      website: token.website ?? '',
+    };
+  }
+
+  private toListItem(token: MockSourceToken, index: number): TokenListItem {
+    const tokenId = this.sourceTokenAddress(index);
+    return {
+      token_info: {
+        token_id: tokenId,
+        name: token.name,
+        symbol: token.symbol,
+        image_uri: `${this.baseUrl}/images/source-${index}.png`,
+        description: token.description ?? `${token.name} description`,
+        is_graduated: false,
+        is_nsfw: false,
+        twitter: token.twitter ?? null,
+        telegram: token.telegram ?? null,
+        website: token.website ?? null,
+        created_at: 1_700_000_000 + index,
+        creator: {
+          account_id: tokenId,
+          nickname: 'mock',
+          bio: '',
+          image_uri: '',
+        },
+      },
+      market_info: {
+        market_type: 'CURVE',
+        token_id: tokenId,
+        market_id: tokenId,
+        reserve_native: '0',
+        reserve_token: '0',
+        token_price: '0',
+        native_price: '0',
+        price: '0',
+        total_supply: '1000000000',
+        volume: '0',
+        ath_price: '0',
+        holder_count: 1,
+      },
+      percent: 0,
+    };
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Generate N simple source tokens (MOCK1, MOCK2, ...)
+ */
+export function defaultSourceTokens(count: number): MockSourceToken[] {
+  return Array.from({ length: count }, (_, i) => ({
+    name: `Mock Token ${i + 1}`,
+    symbol: `MOCK${i + 1}`,
+  }));
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
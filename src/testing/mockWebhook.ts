@@ -0,0 +1,105 @@
+/**
+ * Local HTTP stand-in for notification endpoints (for end-to-end tests)
+ *
+ * Accepts a POST on any path and records its JSON body, so one receiver can
+ * play the webhook (`/hook`), Slack (`/slack`) and Telegram
+ * (`/bot<token>/sendMessage`) at once.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Recorded notification
+ */
+export interface MockWebhookRequest {
+  path: string;
+  body: unknown; // Parsed JSON, narrowed by the reader
+  receivedAt: number;
+}
+
+/**
+ * Mock notification receiver
+ */
+export class MockWebhookReceiver {
+  /** Every POST received, in order */
+  readonly requests: MockWebhookRequest[] = [];
+
+  /** Respond with this status for a path (e.g. simulate a broken sink) */
+  readonly failures = new Map<string, number>();
+
+  private server?: Server;
+  private _baseUrl?: string;
+
+  get baseUrl(): string {
+    if (!this._baseUrl) throw new Error('MockWebhookReceiver is not started');
+    return this._baseUrl;
+  }
+
+  /**
+   * Start listening on a random local port and return the base URL
+   */
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, String(error));
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this._baseUrl = `http://127.0.0.1:${port}`;
+    return this._baseUrl;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) =>
+      this.server!.close((error) => (error ? reject(error) : resolve()))
+    );
+    this.server = undefined;
+  }
+
+  /**
+   * Requests received on one path
+   */
+  received(path: string): MockWebhookRequest[] {
+    return this.requests.filter((request) => request.path === path);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', this.baseUrl);
+    if (req.method !== 'POST') {
+      this.send(res, 405, 'method not allowed');
+      return;
+    }
+
+    const failure = this.failures.get(pathname);
+    if (failure) {
+      this.send(res, failure, 'mock failure');
+      return;
+    }
+
+    const body = await readBody(req);
+    this.requests.push({ path: pathname, body: JSON.parse(body.toString('utf-8')), receivedAt: Date.now() });
+    // Slack answers plain "ok"
+    this.send(res, 200, 'ok');
+  }
+
+  private send(res: ServerResponse, status: number, body: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(body);
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
@@ -87,6 +87,7 @@ export interface PreparedToken {
   twitter?: string;
   telegram?: string;
   website?: string;
+  weight?: number; // Relative pick weight for METADATA_SELECTION=weighted (default 1)
 }
 
 export interface PreparedTokensFile {